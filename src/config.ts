@@ -1,31 +1,230 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
 import path from 'path';
-import { Config } from './types';
+import yaml from 'js-yaml';
+import { Config, ConfigFile } from './types';
+import { resolveDateExpression, resolveTimeZone } from './date-utils';
+import { parseVariables } from './placeholders';
+import { ConfigError } from './errors';
 
 dotenv.config();
 
-export function getConfig(): Config {
-  const notionApiKey = process.env.NOTION_API_KEY;
-  const templatesDatabase = process.env.NOTION_TEMPLATES_DATABASE_ID;
-  const timeBlocksDatabase = process.env.NOTION_TIME_BLOCKS_DATABASE_ID;
+/**
+ * Settings in the form of environment variables, e.g. { NOTION_TIME_ZONE: 'Europe/Berlin' }
+ */
+type Settings = Record<string, string | undefined>;
 
-  if (!notionApiKey) {
-    throw new Error('NOTION_API_KEY environment variable is required');
-  }
+/**
+ * Build the configuration from environment variables
+ * A profile gets its own cache files, e.g. .notion-schema.workday.json
+ */
+export function getConfig(env: Settings = process.env, profile?: string): Config {
+  const notionApiKey = env.NOTION_API_KEY;
+  const templatesDatabase = env.NOTION_TEMPLATES_DATABASE_ID;
+  const timeBlocksDatabase = env.NOTION_TIME_BLOCKS_DATABASE_ID;
 
-  if (!templatesDatabase) {
-    throw new Error('NOTION_TEMPLATES_DATABASE_ID environment variable is required');
+  if (!notionApiKey) {
+    throw new ConfigError('NOTION_API_KEY environment variable is required');
   }
 
   if (!timeBlocksDatabase) {
-    throw new Error('NOTION_TIME_BLOCKS_DATABASE_ID environment variable is required');
+    throw new ConfigError('NOTION_TIME_BLOCKS_DATABASE_ID environment variable is required');
   }
 
+  const cacheFile = (name: string, extension: string) =>
+    path.join(process.cwd(), profile ? `${name}.${profile}.${extension}` : `${name}.${extension}`);
+
   return {
+    profile,
     notionApiKey,
     templatesDatabase,
     timeBlocksDatabase,
-    schemaFilePath: path.join(process.cwd(), '.notion-schema.json'),
-    templatesFilePath: path.join(process.cwd(), '.notion-templates.yaml'),
+    schemaFilePath: cacheFile('.notion-schema', 'json'),
+    templatesFilePath: cacheFile('.notion-templates', 'yaml'),
+    // Without a templates database, templates are written by hand in templates.yaml
+    localTemplatesFilePath: env.NOTION_TEMPLATES_FILE
+      ? path.resolve(env.NOTION_TEMPLATES_FILE)
+      : templatesDatabase
+        ? undefined
+        : path.join(process.cwd(), 'templates.yaml'),
+    templateKeyProperty: env.NOTION_TEMPLATE_KEY_PROPERTY || 'Template Key',
+    runIdProperty: env.NOTION_RUN_ID_PROPERTY || 'Run ID',
+    datePropertyName: env.NOTION_DATE_PROPERTY || undefined,
+    lastPurgeFilePath: cacheFile('.notion-last-purge', 'json'),
+    reportFilePath: env.NOTION_REPORT_FILE
+      ? withProfileSuffix(path.resolve(env.NOTION_REPORT_FILE), profile)
+      : undefined,
+    doneProperty: env.NOTION_DONE_PROPERTY || 'Done',
+    doneValues: (env.NOTION_DONE_VALUES || 'Done,Complete,Completed')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+    categoryProperty: env.NOTION_CATEGORY_PROPERTY || 'Category',
+    daemonTime: parseTimeOfDay(env.NOTION_DAEMON_TIME || '06:00', 'NOTION_DAEMON_TIME'),
+    daemonDates: parseDateExpression(env.NOTION_DAEMON_DATES || 'today', 'NOTION_DAEMON_DATES'),
+    daemonCatchUpDays: parseNumber(env, 'NOTION_DAEMON_CATCH_UP_DAYS', 7, { integer: true, allowZero: true }),
+    daemonPort: parseNumber(env, 'NOTION_DAEMON_PORT', 8787, { integer: true, allowZero: true }),
+    daemonStateFilePath: cacheFile('.notion-daemon-state', 'json'),
+    recurrenceProperty: env.NOTION_RECURRENCE_PROPERTY || 'Recurrence',
+    dayTypeProperty: env.NOTION_DAY_TYPE_PROPERTY || 'Day Type',
+    holidayCalendars: (env.NOTION_HOLIDAYS || '')
+      .split(',')
+      .map((source) => source.trim())
+      .filter(Boolean),
+    timeZone: resolveTimeZone(env.NOTION_TIME_ZONE),
+    requestsPerSecond: parseNumber(env, 'NOTION_REQUESTS_PER_SECOND', 3),
+    maxRetries: parseNumber(env, 'NOTION_MAX_RETRIES', 5, { integer: true, allowZero: true }),
+    concurrency: parseNumber(env, 'NOTION_CONCURRENCY', 3, { integer: true }),
+    propertyMap: parsePropertyMap(env.NOTION_PROPERTY_MAP),
+    rulesFilePath: env.NOTION_RULES_FILE ? path.resolve(env.NOTION_RULES_FILE) : undefined,
+    dayPagesDatabase: env.NOTION_DAYS_DATABASE_ID || undefined,
+    dayRelationProperty: env.NOTION_DAY_RELATION_PROPERTY || 'Day',
+    dayPageTitle: env.NOTION_DAY_PAGE_TITLE || '{{date}}',
+    weekPagesDatabase: env.NOTION_WEEKS_DATABASE_ID || undefined,
+    weekRelationProperty: env.NOTION_WEEK_RELATION_PROPERTY || 'Week',
+    weekPageTitle: env.NOTION_WEEK_PAGE_TITLE || 'Week of {{date}}',
+    templateVars: parseVariables(
+      (env.NOTION_TEMPLATE_VARS || '').split(','),
+      'NOTION_TEMPLATE_VARS'
+    ),
   };
 }
+
+/**
+ * Build the configuration of named profiles from the config file ("all" selects every profile)
+ * Profile settings override the file's defaults, which override the environment
+ */
+export function getProfileConfigs(names: string[]): Config[] {
+  const filePath = path.resolve(process.env.NOTION_CONFIG_FILE || 'notion-time-blocks.yaml');
+
+  let file: ConfigFile;
+  try {
+    file = yaml.load(fs.readFileSync(filePath, 'utf-8')) as ConfigFile;
+  } catch (error) {
+    throw new ConfigError(`Could not read profiles from ${filePath}: ${(error as Error).message}`);
+  }
+
+  const available = Object.keys(file?.profiles || {});
+  if (available.length === 0) {
+    throw new ConfigError(`${filePath} defines no profiles`);
+  }
+
+  // Profile names end up in cache file names
+  const invalid = available.filter((name) => !/^[\w-]+$/.test(name));
+  if (invalid.length > 0) {
+    throw new ConfigError(`Profile names may only contain letters, digits, "_" and "-": ${invalid.join(', ')}`);
+  }
+
+  const selected = names.includes('all') ? available : [...new Set(names)];
+  const unknown = selected.filter((name) => !available.includes(name));
+  if (unknown.length > 0) {
+    throw new ConfigError(`Unknown profile ${unknown.join(', ')} (available: ${available.join(', ')})`);
+  }
+
+  return selected.map((name) => {
+    try {
+      const env = { ...process.env, ...toSettings(file.defaults), ...toSettings(file.profiles[name]) };
+      return getConfig(env, name);
+    } catch (error) {
+      throw new ConfigError(`Profile "${name}": ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Give each profile its own copy of a file, e.g. report.json -> report.workday.json
+ */
+export function withProfileSuffix(filePath: string, profile?: string): string {
+  if (!profile) {
+    return filePath;
+  }
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}.${profile}${extension}`;
+}
+
+/**
+ * Turn the values of a profile into setting strings; YAML may read them as numbers or booleans
+ */
+function toSettings(values: Record<string, unknown> | undefined): Settings {
+  const settings: Settings = {};
+
+  for (const [name, value] of Object.entries(values || {})) {
+    settings[name] = value === null || value === undefined ? undefined : String(value);
+  }
+
+  return settings;
+}
+
+/**
+ * Parse a property map like "Template Name=Name, When=Scheduled"
+ * mapping templates database property names to time blocks database names
+ */
+function parsePropertyMap(raw: string | undefined): Record<string, string> {
+  const map: Record<string, string> = {};
+
+  for (const entry of (raw || '').split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const [from, to, ...rest] = entry.split('=').map((part) => part.trim());
+    if (!from || !to || rest.length > 0) {
+      throw new ConfigError(`NOTION_PROPERTY_MAP entries must look like "Template Name=Target Name", got "${entry.trim()}"`);
+    }
+
+    map[from] = to;
+  }
+
+  return map;
+}
+
+/**
+ * Parse a time of day like "20:00" into minutes after midnight
+ */
+function parseTimeOfDay(raw: string, name: string): number {
+  const match = raw.trim().match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (!match) {
+    throw new ConfigError(`${name} must be a time like "20:00", got "${raw}"`);
+  }
+  return +match[1] * 60 + +match[2];
+}
+
+/**
+ * Check a date expression like "tomorrow" or "next-week" can be resolved
+ */
+function parseDateExpression(raw: string, name: string): string {
+  try {
+    resolveDateExpression(raw);
+  } catch (error) {
+    throw new ConfigError(`${name}: ${(error as Error).message}`);
+  }
+  return raw.trim();
+}
+
+/**
+ * Read a number from an environment variable, falling back to a default when unset
+ */
+function parseNumber(
+  env: Settings,
+  name: string,
+  defaultValue: number,
+  options: { integer?: boolean; allowZero?: boolean } = {}
+): number {
+  const raw = env[name];
+  if (!raw) {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  const valid =
+    !isNaN(value) &&
+    (options.allowZero ? value >= 0 : value > 0) &&
+    (!options.integer || Number.isInteger(value));
+
+  if (!valid) {
+    const kind = `${options.allowZero ? 'non-negative' : 'positive'} ${options.integer ? 'whole number' : 'number'}`;
+    throw new ConfigError(`${name} must be a ${kind}, got "${raw}"`);
+  }
+
+  return value;
+}
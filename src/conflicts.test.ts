@@ -0,0 +1,56 @@
+import { BusySlot, resolveConflict, TimeSpan } from './conflicts';
+import { toInstant } from './date-utils';
+
+const ZONE = 'Europe/Berlin';
+
+// Instant of a wall clock time in Berlin
+const at = (dateTime: string) => toInstant(dateTime, ZONE).getTime();
+const span = (start: string, end: string): TimeSpan => ({ start: at(start), end: at(end) });
+const busy = (start: string, end: string): BusySlot => ({ ...span(start, end), title: 'Meeting', pageId: 'page' });
+
+describe('resolveConflict', () => {
+  it('shifts a block past the busy slot it overlaps', () => {
+    const resolution = resolveConflict(
+      span('2024-06-10T09:00', '2024-06-10T10:00'),
+      [busy('2024-06-10T09:30', '2024-06-10T10:30')],
+      [],
+      'shift',
+      ZONE
+    );
+    expect(resolution).toMatchObject({ outcome: 'shifted', span: span('2024-06-10T10:30', '2024-06-10T11:30') });
+  });
+
+  it('shifts a block placed on the day after the target date within its own day', () => {
+    // A day: 1 offset puts the block on 2024-06-11, after the end of the target date 2024-06-10
+    const resolution = resolveConflict(
+      span('2024-06-11T09:00', '2024-06-11T10:00'),
+      [busy('2024-06-11T08:30', '2024-06-11T09:30')],
+      [],
+      'shift',
+      ZONE
+    );
+    expect(resolution).toMatchObject({ outcome: 'shifted', span: span('2024-06-11T09:30', '2024-06-11T10:30') });
+  });
+
+  it('avoids the other blocks being planned', () => {
+    const resolution = resolveConflict(
+      span('2024-06-11T09:00', '2024-06-11T10:00'),
+      [busy('2024-06-11T09:00', '2024-06-11T09:30')],
+      [span('2024-06-11T09:30', '2024-06-11T10:15')],
+      'shift',
+      ZONE
+    );
+    expect(resolution?.span).toEqual(span('2024-06-11T10:15', '2024-06-11T11:15'));
+  });
+
+  it('skips a block that would be shifted past the end of the day it starts on', () => {
+    const resolution = resolveConflict(
+      span('2024-06-11T22:30', '2024-06-11T23:30'),
+      [busy('2024-06-11T22:00', '2024-06-11T23:15')],
+      [],
+      'shift',
+      ZONE
+    );
+    expect(resolution).toMatchObject({ outcome: 'skipped', reason: 'no free slot left on the day' });
+  });
+});
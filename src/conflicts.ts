@@ -0,0 +1,172 @@
+import { PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { ConflictPolicy } from './types';
+import { formatDateTime, getDayBounds, toInstant, todayInTimeZone } from './date-utils';
+
+/**
+ * A span of time, in milliseconds since the epoch
+ */
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Time taken by a page already in the time blocks database
+ */
+export interface BusySlot extends TimeSpan {
+  title: string;
+  pageId: string;
+}
+
+/**
+ * How a block overlapping busy slots was handled
+ */
+export interface ConflictResolution {
+  overlaps: BusySlot[];
+  outcome: 'warned' | 'skipped' | 'shifted' | 'shrunk';
+  span?: TimeSpan;  // New span of a shifted or shrunk block
+  reason?: string;  // Why a shift or shrink ended up skipping the block
+}
+
+/**
+ * Read the time taken by each page from its first timed date property
+ * All-day pages and pages without an end don't take up time, so they are left out
+ */
+export function findBusySlots(
+  pages: PageObjectResponse[],
+  dateProperties: string[],
+  timeZone: string
+): BusySlot[] {
+  const slots: BusySlot[] = [];
+
+  for (const page of pages) {
+    for (const name of dateProperties) {
+      const prop = page.properties[name];
+      const date = prop?.type === 'date' ? prop.date : null;
+      if (!date?.start || !date.end || date.start.length === 10) {
+        continue;
+      }
+
+      const zone = date.time_zone || timeZone;
+      slots.push({
+        title: getPageTitle(page),
+        pageId: page.id,
+        start: toInstant(date.start, zone).getTime(),
+        end: toInstant(date.end, zone).getTime(),
+      });
+      break;
+    }
+  }
+
+  return slots.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Apply a conflict policy to a block
+ * A shifted block moves to the first gap after its start that fits it,
+ * avoiding both busy slots and the other blocks being planned (taken), and
+ * staying on the calendar day it starts on in timeZone (the day its offset puts it on).
+ * A shrunk block keeps the longest part of its span that is free.
+ * Returns null when the block doesn't overlap any busy slot
+ */
+export function resolveConflict(
+  block: TimeSpan,
+  busy: BusySlot[],
+  taken: TimeSpan[],
+  policy: ConflictPolicy,
+  timeZone: string
+): ConflictResolution | null {
+  const overlaps = busy.filter((slot) => overlapsSpan(slot, block));
+  if (overlaps.length === 0) {
+    return null;
+  }
+
+  if (policy === 'warn') {
+    return { overlaps, outcome: 'warned' };
+  }
+  if (policy === 'skip') {
+    return { overlaps, outcome: 'skipped' };
+  }
+
+  if (policy === 'shift') {
+    const length = block.end - block.start;
+    const blocking = [...busy, ...taken];
+    let start = block.start;
+
+    // Move past whatever is in the way until nothing is
+    for (;;) {
+      const candidate = { start, end: start + length };
+      const inTheWay = blocking.filter((span) => overlapsSpan(span, candidate));
+      if (inTheWay.length === 0) {
+        break;
+      }
+      start = Math.max(...inTheWay.map((span) => span.end));
+    }
+
+    const dayEnd = getDayBounds(todayInTimeZone(timeZone, new Date(block.start)), timeZone).end.getTime();
+    if (start + length > dayEnd) {
+      return { overlaps, outcome: 'skipped', reason: 'no free slot left on the day' };
+    }
+    return { overlaps, outcome: 'shifted', span: { start, end: start + length } };
+  }
+
+  // Shrink: cut the busy slots out of the block and keep the longest free part
+  let free: TimeSpan[] = [block];
+  for (const slot of overlaps) {
+    free = free.flatMap((part) =>
+      [
+        { start: part.start, end: Math.min(part.end, slot.start) },
+        { start: Math.max(part.start, slot.end), end: part.end },
+      ].filter((piece) => piece.end > piece.start)
+    );
+  }
+
+  const longest = free.sort((a, b) => b.end - b.start - (a.end - a.start))[0];
+  if (!longest) {
+    return { overlaps, outcome: 'skipped', reason: 'no free time left in its slot' };
+  }
+  return { overlaps, outcome: 'shrunk', span: longest };
+}
+
+/**
+ * Describe a conflict resolution for logs and the dry run plan
+ */
+export function describeConflict(resolution: ConflictResolution, timeZone: string): string {
+  const overlaps = resolution.overlaps
+    .map((slot) => `"${slot.title}" (${formatSpan(slot, timeZone)})`)
+    .join(', ');
+  const outcome =
+    resolution.outcome === 'warned'
+      ? 'kept'
+      : resolution.outcome === 'skipped'
+        ? `skipped${resolution.reason ? ` (${resolution.reason})` : ''}`
+        : `${resolution.outcome} to ${formatSpan(resolution.span!, timeZone)}`;
+
+  return `Overlaps ${overlaps}; ${outcome}`;
+}
+
+/**
+ * Format a span as wall clock times, e.g. "09:00-10:30"
+ */
+export function formatSpan(span: TimeSpan, timeZone: string): string {
+  const time = (ms: number) => formatDateTime(new Date(ms), timeZone).substring(11, 16);
+  return `${time(span.start)}-${time(span.end)}`;
+}
+
+/**
+ * Check whether two spans share any time; touching spans don't overlap
+ */
+export function overlapsSpan(a: TimeSpan, b: TimeSpan): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Get the title of a page
+ */
+function getPageTitle(page: PageObjectResponse): string {
+  const titleProp = Object.values(page.properties).find((prop) => prop.type === 'title');
+  if (titleProp && titleProp.type === 'title' && titleProp.title.length > 0) {
+    return titleProp.title.map((t) => t.plain_text).join('');
+  }
+  return 'Untitled';
+}
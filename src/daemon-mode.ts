@@ -0,0 +1,268 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { Config, DaemonState, ScheduledModeOptions } from './types';
+import {
+  addDays,
+  expandDateRange,
+  formatDate,
+  parseTargetDate,
+  resolveDateExpression,
+  todayInTimeZone,
+  wallClockToInstant,
+} from './date-utils';
+import { runScheduledMode } from './scheduled-mode';
+import { ConfigError, RunFailedError } from './errors';
+import { logger, setLogContext } from './logger';
+
+// Longest wait between checks, so clock changes and a suspended machine are noticed within the hour
+const MAX_SLEEP_MS = 60 * 60 * 1000;
+
+/**
+ * A profile scheduled by the daemon, with its last run
+ */
+interface DaemonProfile {
+  config: Config;
+  state: DaemonState | null;
+}
+
+/**
+ * Daemon mode: Run scheduled mode every day at the configured time of each profile
+ * Each profile creates the days of its date expression (e.g. "tomorrow") at its
+ * daemon time, in its own time zone. The last run is saved, so days missed while
+ * the daemon was down are caught up when it starts again, and days whose run
+ * failed are retried. Runs until SIGINT/SIGTERM
+ */
+export async function runDaemonMode(configs: Config[], options: ScheduledModeOptions): Promise<void> {
+  if (options.dryRun) {
+    throw new ConfigError('Daemon mode can\'t be combined with --dry-run');
+  }
+
+  logger.info('Running daemon mode...');
+
+  // One health endpoint covers every profile
+  const ports = [...new Set(configs.map((config) => config.daemonPort))];
+  if (ports.length > 1) {
+    throw new ConfigError(
+      `The profiles set different NOTION_DAEMON_PORT values (${ports.join(', ')}); ` +
+        'the daemon serves one health endpoint for all of them, so set the same port (or use --port)'
+    );
+  }
+
+  const profiles: DaemonProfile[] = [];
+  for (const config of configs) {
+    profiles.push({ config, state: await loadDaemonState(config) });
+    logger.info(
+      `${config.profile ? `Profile ${config.profile}: ` : ''}creating "${config.daemonDates}" ` +
+        `every day at ${formatTimeOfDay(config.daemonTime)} (${config.timeZone})`
+    );
+  }
+
+  const startedAt = new Date().toISOString();
+  const port = ports[0];
+  const server = port > 0 ? await startHealthServer(port, profiles, startedAt) : null;
+
+  let stopping = false;
+  let wake = () => {};
+  const stop = () => {
+    logger.info('\nStopping daemon...');
+    stopping = true;
+    wake();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  while (!stopping) {
+    for (const profile of profiles) {
+      for (const day of getDueDays(profile, new Date())) {
+        if (stopping) {
+          break;
+        }
+        await runDay(profile, day, options);
+      }
+    }
+
+    const nextRun = Math.min(...profiles.map((profile) => getNextRun(profile.config, new Date()).getTime()));
+    const waitMs = Math.min(MAX_SLEEP_MS, Math.max(0, nextRun - Date.now()));
+    if (!stopping) {
+      logger.info(`\nNext run: ${new Date(nextRun).toISOString()}`);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, waitMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  }
+
+  process.removeListener('SIGINT', stop);
+  process.removeListener('SIGTERM', stop);
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  logger.info('✓ Daemon stopped');
+}
+
+/**
+ * Run scheduled mode for the dates of one day, and save the outcome as the profile's last run
+ * A failing run is logged and recorded to be retried; the daemon carries on with the next day
+ */
+async function runDay(profile: DaemonProfile, day: Date, options: ScheduledModeOptions): Promise<void> {
+  const { config } = profile;
+  const range = resolveDateExpression(config.daemonDates, day);
+  const targetDates = expandDateRange(range.start, range.end);
+
+  setLogContext(config.profile ? { profile: config.profile } : {});
+  logger.info(`\n=== ${config.profile ? `Profile ${config.profile}, ` : ''}run of ${formatDate(day)} ===\n`, {
+    event: 'daemon.run',
+    day: formatDate(day),
+  });
+
+  // A retried day doesn't move the last run day back
+  const dayText = formatDate(day);
+  const previous = profile.state;
+  const earliest = formatDate(addDays(todayInTimeZone(config.timeZone), -config.daemonCatchUpDays));
+  const state: DaemonState = {
+    lastRunDay: previous && previous.lastRunDay > dayText ? previous.lastRunDay : dayText,
+    lastRunAt: new Date().toISOString(),
+    lastStatus: 'success',
+    targetDates: targetDates.map(formatDate),
+    failedDays: (previous?.failedDays ?? []).filter((failed) => failed !== dayText && failed >= earliest),
+  };
+
+  try {
+    await runScheduledMode(config, targetDates, options);
+  } catch (error) {
+    state.lastStatus = error instanceof RunFailedError && error.partial ? 'partial' : 'failed';
+    state.lastError = error instanceof Error ? error.message : String(error);
+    state.failedDays!.push(dayText);
+    logger.error(`✗ Run of ${formatDate(day)} failed: ${state.lastError}`, {
+      event: 'daemon.run_failed',
+      day: formatDate(day),
+      error: state.lastError,
+    });
+  }
+
+  profile.state = state;
+  try {
+    await fs.writeFile(config.daemonStateFilePath, JSON.stringify(state, null, 2), 'utf-8');
+  } catch (error) {
+    logger.warn(`⚠ Warning: Could not save the daemon state: ${(error as Error).message}`);
+  }
+  setLogContext({});
+}
+
+/**
+ * Get the days whose run time has passed without a successful run, oldest first
+ * Without a saved state, only today counts. Downtime longer than
+ * daemonCatchUpDays is only caught up for its most recent days, and
+ * failed days are only retried for as long
+ */
+function getDueDays(profile: DaemonProfile, now: Date): Date[] {
+  const { config, state } = profile;
+  const today = todayInTimeZone(config.timeZone, now);
+  const earliest = addDays(today, -config.daemonCatchUpDays);
+
+  let day = state ? addDays(parseTargetDate(state.lastRunDay), 1) : today;
+  if (day < earliest) {
+    logger.warn(
+      `⚠ Warning: Missed runs from ${formatDate(day)} to ${formatDate(addDays(earliest, -1))} ` +
+        `are older than NOTION_DAEMON_CATCH_UP_DAYS (${config.daemonCatchUpDays}) and are not caught up`
+    );
+    day = earliest;
+  }
+
+  // A state saved before failed days were recorded only has the last run's status
+  const failedDays = state?.failedDays ?? (state && state.lastStatus !== 'success' ? [state.lastRunDay] : []);
+  const due = failedDays.map(parseTargetDate).filter((failed) => failed >= earliest && failed < day);
+  for (; day <= today; day = addDays(day, 1)) {
+    if (getRunTime(config, day) <= now) {
+      due.push(day);
+    }
+  }
+
+  return due;
+}
+
+/**
+ * Get the next time a profile runs after now
+ */
+function getNextRun(config: Config, now: Date): Date {
+  const today = todayInTimeZone(config.timeZone, now);
+  const runToday = getRunTime(config, today);
+  return runToday > now ? runToday : getRunTime(config, addDays(today, 1));
+}
+
+/**
+ * Get the instant a profile runs on a day
+ */
+function getRunTime(config: Config, day: Date): Date {
+  return wallClockToInstant(
+    {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: Math.floor(config.daemonTime / 60),
+      minute: config.daemonTime % 60,
+      second: 0,
+      millisecond: 0,
+    },
+    config.timeZone
+  );
+}
+
+/**
+ * Load the last run of a profile; null before its first run
+ */
+async function loadDaemonState(config: Config): Promise<DaemonState | null> {
+  try {
+    return JSON.parse(await fs.readFile(config.daemonStateFilePath, 'utf-8')) as DaemonState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serve the daemon's health on localhost: GET /health answers 200 while the last
+ * run of every profile succeeded and no failed day awaits a retry, and 503 otherwise,
+ * with the details as JSON
+ */
+function startHealthServer(port: number, profiles: DaemonProfile[], startedAt: string): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    if (request.method !== 'GET' || (request.url !== '/health' && request.url !== '/')) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const healthy = profiles.every(
+      ({ state }) => !state || (state.lastStatus === 'success' && !state.failedDays?.length)
+    );
+    const body = {
+      status: healthy ? 'ok' : 'failing',
+      startedAt,
+      profiles: profiles.map(({ config, state }) => ({
+        profile: config.profile ?? null,
+        nextRunAt: getNextRun(config, new Date()).toISOString(),
+        lastRun: state,
+      })),
+    };
+
+    response.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body, null, 2));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', (error) =>
+      reject(new ConfigError(`Could not start the health endpoint on port ${port}: ${error.message}`))
+    );
+    server.listen(port, '127.0.0.1', () => {
+      logger.info(`Health endpoint: http://127.0.0.1:${port}/health`);
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Format minutes after midnight as a time like "20:00"
+ */
+function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,106 @@
+import { combineDateTime, getDayBounds, parseTargetDate, toWallClock, wallClockToInstant } from './date-utils';
+import { placeOffsetSpan } from './offsets';
+
+const BERLIN = 'Europe/Berlin';
+const NEW_YORK = 'America/New_York';
+
+// Berlin: clocks jump from 02:00 to 03:00 on 2024-03-31 and fall back from 03:00 to 02:00 on 2024-10-27
+// New York: 02:00 to 03:00 on 2024-03-10, 02:00 back to 01:00 on 2024-11-03
+
+describe('wallClockToInstant', () => {
+  it('moves a time in the spring-forward gap past the gap', () => {
+    expect(wallClockToInstant(toWallClock('2024-03-31T02:30', BERLIN), BERLIN).toISOString()).toBe(
+      '2024-03-31T01:30:00.000Z'
+    );
+    expect(wallClockToInstant(toWallClock('2024-03-10T02:30', NEW_YORK), NEW_YORK).toISOString()).toBe(
+      '2024-03-10T07:30:00.000Z'
+    );
+  });
+
+  it('picks the first occurrence of a time repeated by the fall-back overlap', () => {
+    expect(wallClockToInstant(toWallClock('2024-10-27T02:30', BERLIN), BERLIN).toISOString()).toBe(
+      '2024-10-27T00:30:00.000Z'
+    );
+    expect(wallClockToInstant(toWallClock('2024-11-03T01:30', NEW_YORK), NEW_YORK).toISOString()).toBe(
+      '2024-11-03T05:30:00.000Z'
+    );
+  });
+
+  it('leaves times outside a transition alone', () => {
+    expect(wallClockToInstant(toWallClock('2024-07-01T09:00', BERLIN), BERLIN).toISOString()).toBe(
+      '2024-07-01T07:00:00.000Z'
+    );
+  });
+});
+
+describe('combineDateTime', () => {
+  it('turns a template time in the spring-forward gap into a real time', () => {
+    expect(combineDateTime('2024-01-01T02:30:00.000', parseTargetDate('2024-03-31'), 0, BERLIN)).toBe(
+      '2024-03-31T03:30:00.000'
+    );
+  });
+
+  it('keeps a template time in the fall-back overlap as written', () => {
+    expect(combineDateTime('2024-01-01T02:30:00.000', parseTargetDate('2024-10-27'), 0, BERLIN)).toBe(
+      '2024-10-27T02:30:00.000'
+    );
+  });
+
+  it('keeps the wall clock time across a DST change', () => {
+    // 09:00 in winter stays 09:00 in summer, an hour earlier in UTC
+    expect(combineDateTime('2024-01-15T09:00:00.000', parseTargetDate('2024-07-15'), 0, NEW_YORK)).toBe(
+      '2024-07-15T09:00:00.000'
+    );
+  });
+
+  it('reads a template time with a UTC offset as wall clock time in the zone', () => {
+    expect(combineDateTime('2024-03-01T14:00:00.000Z', parseTargetDate('2024-06-10'), 0, BERLIN)).toBe(
+      '2024-06-10T15:00:00.000'
+    );
+  });
+
+  it('applies the day offset of templates spanning midnight', () => {
+    expect(combineDateTime('2024-01-02T07:00:00.000', parseTargetDate('2024-03-30'), 1, BERLIN)).toBe(
+      '2024-03-31T07:00:00.000'
+    );
+  });
+});
+
+describe('getDayBounds', () => {
+  it('gives the spring-forward day 23 hours', () => {
+    const { start, end } = getDayBounds(parseTargetDate('2024-03-31'), BERLIN);
+    expect(start.toISOString()).toBe('2024-03-30T23:00:00.000Z');
+    expect(end.toISOString()).toBe('2024-03-31T22:00:00.000Z');
+  });
+
+  it('gives the fall-back day 25 hours', () => {
+    const { start, end } = getDayBounds(parseTargetDate('2024-11-03'), NEW_YORK);
+    expect(start.toISOString()).toBe('2024-11-03T04:00:00.000Z');
+    expect(end.toISOString()).toBe('2024-11-04T05:00:00.000Z');
+  });
+});
+
+describe('template times as Notion dates', () => {
+  it('sends wall clock times with the time zone', () => {
+    // 01:00 to 04:00 on the spring-forward day: written as is, Notion applies the zone
+    expect(placeOffsetSpan({ start: 60, end: 240 }, parseTargetDate('2024-03-31'), BERLIN)).toEqual({
+      start: '2024-03-31T01:00:00.000',
+      end: '2024-03-31T04:00:00.000',
+      time_zone: BERLIN,
+    });
+  });
+
+  it('moves a start in the gap past it', () => {
+    expect(placeOffsetSpan({ start: 150, end: 240 }, parseTargetDate('2024-03-10'), NEW_YORK)).toEqual({
+      start: '2024-03-10T03:30:00.000',
+      end: '2024-03-10T04:00:00.000',
+      time_zone: NEW_YORK,
+    });
+  });
+
+  it('sends all-day dates without a time zone', () => {
+    expect(
+      placeOffsetSpan({ start: 0, end: 2 * 1440, allDay: true }, parseTargetDate('2024-10-27'), BERLIN)
+    ).toEqual({ start: '2024-10-27', end: '2024-10-28', time_zone: null });
+  });
+});
@@ -1,3 +1,8 @@
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Longest range accepted in one invocation, to catch typos like --to 2204-01-01
+const MAX_RANGE_DAYS = 366;
+
 /**
  * Parse a date string or use today if not provided
  */
@@ -14,51 +19,376 @@ export function parseTargetDate(dateStr?: string): Date {
   return parsed;
 }
 
+/**
+ * Resolve a date expression to an inclusive range of days
+ * Accepts ISO dates (YYYY-MM-DD), "today", "tomorrow", "yesterday",
+ * day/week offsets from today ("+5d", "-1d", "+2w"), and
+ * "last-week", "this-week" or "next-week" (Monday to Sunday)
+ */
+export function resolveDateExpression(
+  expr: string,
+  today: Date = new Date()
+): { start: Date; end: Date } {
+  const normalized = expr.trim().toLowerCase();
+
+  const namedDays: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+  if (normalized in namedDays) {
+    const day = addDays(today, namedDays[normalized]);
+    return { start: day, end: day };
+  }
+
+  const offset = normalized.match(/^([+-]\d+)([dw])$/);
+  if (offset) {
+    const days = parseInt(offset[1], 10) * (offset[2] === 'w' ? 7 : 1);
+    const day = addDays(today, days);
+    return { start: day, end: day };
+  }
+
+  const namedWeeks: Record<string, number> = { 'last-week': -1, 'this-week': 0, 'next-week': 1 };
+  if (normalized in namedWeeks) {
+    // getUTCDay() is 0 for Sunday; weeks run Monday to Sunday
+    const monday = addDays(today, -((today.getUTCDay() + 6) % 7) + namedWeeks[normalized] * 7);
+    return { start: monday, end: addDays(monday, 6) };
+  }
+
+  const day = parseTargetDate(expr);
+  return { start: day, end: day };
+}
+
+/**
+ * Resolve the CLI date arguments to the list of dates to generate
+ * Either a single date expression or a --from/--to range may be given;
+ * with neither, the result is just today.
+ * Dates are returned as UTC midnight of each calendar day
+ */
+export function parseTargetDates(
+  date: string | undefined,
+  from: string | undefined,
+  to: string | undefined,
+  timeZone: string
+): Date[] {
+  const range = parseDateRange(date, from, to, timeZone);
+
+  if (!range) {
+    return [todayInTimeZone(timeZone)];
+  }
+
+  return expandDateRange(range.start, range.end);
+}
+
+/**
+ * Resolve the CLI date arguments to an inclusive range of days
+ * Returns null when no date arguments were given
+ */
+export function parseDateRange(
+  date: string | undefined,
+  from: string | undefined,
+  to: string | undefined,
+  timeZone: string
+): { start: Date; end: Date } | null {
+  if (date && (from || to)) {
+    throw new Error('Specify either a date or --from/--to, not both');
+  }
+
+  if (!date && !from && !to) {
+    return null;
+  }
+
+  // Relative dates count from today in the configured time zone
+  const today = todayInTimeZone(timeZone);
+  const start = resolveDateExpression(date || from || 'today', today).start;
+  const end = resolveDateExpression(to || date || from || 'today', today).end;
+
+  if (start.getTime() > end.getTime()) {
+    throw new Error(`Invalid date range: ${formatDate(start)} is after ${formatDate(end)}`);
+  }
+
+  return { start, end };
+}
+
+/**
+ * List every day from start to end (inclusive)
+ */
+export function expandDateRange(start: Date, end: Date): Date[] {
+  const days = Math.round((startOfDay(end) - startOfDay(start)) / DAY_MS) + 1;
+
+  if (days < 1) {
+    throw new Error(`Invalid date range: ${formatDate(start)} is after ${formatDate(end)}`);
+  }
+
+  if (days > MAX_RANGE_DAYS) {
+    throw new Error(`Date range too long: ${days} days (maximum ${MAX_RANGE_DAYS})`);
+  }
+
+  return Array.from({ length: days }, (_, i) => addDays(start, i));
+}
+
+/**
+ * Add a number of days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Get the UTC midnight timestamp of a date's day
+ */
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Calendar date and time of day as shown on a clock in some time zone
+ */
+export interface WallClockTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/**
+ * Get the time zone of the machine running the tool
+ */
+export function getHostTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Validate an IANA time zone name, defaulting to the host's time zone when not given
+ */
+export function resolveTimeZone(timeZone?: string): string {
+  if (!timeZone) {
+    return getHostTimeZone();
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Invalid time zone: ${timeZone} (expected an IANA name like "Europe/Berlin")`);
+  }
+
+  return timeZone;
+}
+
+/**
+ * Get today's calendar date in a time zone, as a UTC-midnight date
+ * Target dates are always represented this way so formatDate() shows the intended day
+ */
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): Date {
+  const wall = instantToWallClock(now, timeZone);
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day));
+}
+
+/**
+ * Read a Notion date/datetime string as a wall clock time in a time zone
+ * Values with a UTC offset are converted to the zone; values without one
+ * (including date-only values, read as midnight) are already wall clock times
+ */
+export function toWallClock(dateTime: string, timeZone: string): WallClockTime {
+  const naive = dateTime.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/);
+
+  if (naive) {
+    return {
+      year: +naive[1],
+      month: +naive[2],
+      day: +naive[3],
+      hour: +(naive[4] || 0),
+      minute: +(naive[5] || 0),
+      second: +(naive[6] || 0),
+      millisecond: +(naive[7] || '0').padEnd(3, '0'),
+    };
+  }
+
+  const instant = new Date(dateTime);
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid date format: ${dateTime}`);
+  }
+
+  return instantToWallClock(instant, timeZone);
+}
+
+/**
+ * Get the wall clock time of an instant in a time zone
+ */
+export function instantToWallClock(instant: Date, timeZone: string): WallClockTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,  // Some engines format midnight as 24
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: instant.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Convert a wall clock time in a time zone to an instant
+ * Times skipped by a DST gap (e.g. 02:30 when clocks jump from 02:00 to 03:00)
+ * resolve to the same duration after the gap (03:30); times repeated by a DST
+ * overlap resolve to their first occurrence
+ */
+export function wallClockToInstant(wall: WallClockTime, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+    wall.millisecond
+  );
+
+  // Offsets in effect a day either side cover any transition near this time
+  const offsetBefore = getTimeZoneOffset(new Date(asUtc - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(asUtc + DAY_MS), timeZone);
+
+  const candidates = [asUtc - offsetBefore, asUtc - offsetAfter]
+    .filter((time) => isSameWallClock(instantToWallClock(new Date(time), timeZone), wall))
+    .sort((a, b) => a - b);
+
+  // No candidate means the time falls in a gap; the pre-transition offset moves it past the gap
+  return new Date(candidates.length > 0 ? candidates[0] : asUtc - offsetBefore);
+}
+
+/**
+ * Format a wall clock time as an ISO datetime without a UTC offset,
+ * the form Notion expects alongside date.time_zone
+ */
+export function formatWallClock(wall: WallClockTime): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return (
+    `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}` +
+    `T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}.${pad(wall.millisecond, 3)}`
+  );
+}
+
+/**
+ * Count the calendar days from one wall clock time to another, ignoring time of day
+ */
+export function calendarDaysBetween(from: WallClockTime, to: WallClockTime): number {
+  const fromDay = Date.UTC(from.year, from.month - 1, from.day);
+  const toDay = Date.UTC(to.year, to.month - 1, to.day);
+  return Math.round((toDay - fromDay) / DAY_MS);
+}
+
 /**
  * Combine a template time (from original entry) with a new target date
- * Preserves the time portion from the template, replaces the date portion with target
- * Also preserves day offset (e.g., if template spans to next day)
+ * Preserves the wall clock time of the template in the given time zone,
+ * replaces the date portion with the target date plus a day offset
+ * (e.g., if the template spans to the next day).
+ * Returns a datetime without a UTC offset, to be sent with date.time_zone
  */
 export function combineDateTime(
   templateDateTime: string,
   targetDate: Date,
-  templateStartDateTime?: string
+  dayOffset: number,
+  timeZone: string
 ): string {
-  const templateDate = new Date(templateDateTime);
-
-  // If we have a start date, calculate the day offset
-  let dayOffset = 0;
-  if (templateStartDateTime) {
-    const templateStart = new Date(templateStartDateTime);
-    const templateCurrent = new Date(templateDateTime);
-
-    // Calculate how many days apart they are (ignoring time)
-    const startDay = new Date(
-      templateStart.getFullYear(),
-      templateStart.getMonth(),
-      templateStart.getDate()
-    );
-    const currentDay = new Date(
-      templateCurrent.getFullYear(),
-      templateCurrent.getMonth(),
-      templateCurrent.getDate()
-    );
-
-    dayOffset = Math.round((currentDay.getTime() - startDay.getTime()) / (1000 * 60 * 60 * 24));
-  }
-
-  // Create new date with target year/month/day (plus offset) but template time
-  const combined = new Date(
-    targetDate.getFullYear(),
-    targetDate.getMonth(),
-    targetDate.getDate() + dayOffset,
-    templateDate.getHours(),
-    templateDate.getMinutes(),
-    templateDate.getSeconds(),
-    templateDate.getMilliseconds()
+  const templateTime = toWallClock(templateDateTime, timeZone);
+  const day = addDays(targetDate, dayOffset);
+
+  const combined: WallClockTime = {
+    ...templateTime,
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth() + 1,
+    day: day.getUTCDate(),
+  };
+
+  // Round-trip through an instant so a time inside a DST gap becomes a real time
+  return formatWallClock(instantToWallClock(wallClockToInstant(combined, timeZone), timeZone));
+}
+
+/**
+ * Get the instants a calendar day starts and ends at in a time zone
+ */
+export function getDayBounds(day: Date, timeZone: string): { start: Date; end: Date } {
+  const midnight = (date: Date): WallClockTime => ({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: 0,
+    minute: 0,
+    second: 0,
+    millisecond: 0,
+  });
+
+  return {
+    start: wallClockToInstant(midnight(day), timeZone),
+    end: wallClockToInstant(midnight(addDays(day, 1)), timeZone),
+  };
+}
+
+/**
+ * Get the instant a Notion date/datetime string refers to in a time zone
+ */
+export function toInstant(dateTime: string, timeZone: string): Date {
+  return wallClockToInstant(toWallClock(dateTime, timeZone), timeZone);
+}
+
+/**
+ * Get the UTC offset of a time zone at an instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const wall = instantToWallClock(instant, timeZone);
+  const asUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+    wall.millisecond
   );
+  return asUtc - instant.getTime();
+}
 
-  return combined.toISOString();
+/**
+ * Compare two wall clock times
+ */
+function isSameWallClock(a: WallClockTime, b: WallClockTime): boolean {
+  return (
+    a.year === b.year &&
+    a.month === b.month &&
+    a.day === b.day &&
+    a.hour === b.hour &&
+    a.minute === b.minute &&
+    a.second === b.second
+  );
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a cached formatter producing numeric date parts in a time zone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
 }
 
 /**
@@ -70,8 +400,17 @@ export function formatDate(date: Date): string {
 
 /**
  * Format datetime for display with time
+ * With a time zone, shows the wall clock time there; otherwise UTC
  */
-export function formatDateTime(dateTime: string | Date): string {
+export function formatDateTime(dateTime: string | Date, timeZone?: string): string {
+  if (timeZone) {
+    const wall =
+      typeof dateTime === 'string'
+        ? toWallClock(dateTime, timeZone)
+        : instantToWallClock(dateTime, timeZone);
+    return formatWallClock(wall).replace('T', ' ').substring(0, 19);
+  }
+
   const date = typeof dateTime === 'string' ? new Date(dateTime) : dateTime;
   return date.toISOString().replace('T', ' ').substring(0, 19);
 }
@@ -0,0 +1,56 @@
+/**
+ * Exit status of the process, so cron and CI can tell failures apart
+ */
+export const ExitCode = {
+  Success: 0,
+  Failure: 1,  // Nothing was done, or an unexpected error stopped the run
+  PartialFailure: 2,  // Some time blocks were written, others failed
+  ValidationError: 3,  // Templates, payloads or the database schema are invalid; nothing was written
+  ConfigError: 4,  // Missing or invalid settings or command line options
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * An error that ends the process with a specific exit code
+ */
+export class ExitError extends Error {
+  constructor(message: string, readonly exitCode: ExitCode) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Missing or invalid settings, profiles or command line options
+ */
+export class ConfigError extends ExitError {
+  constructor(message: string) {
+    super(message, ExitCode.ConfigError);
+  }
+}
+
+/**
+ * Templates, planned payloads or the database schema that can't be written
+ */
+export class ValidationError extends ExitError {
+  constructor(message: string) {
+    super(message, ExitCode.ValidationError);
+  }
+}
+
+/**
+ * A run in which writing some or all of the pages failed
+ */
+export class RunFailedError extends ExitError {
+  constructor(message: string, readonly partial: boolean) {
+    super(message, partial ? ExitCode.PartialFailure : ExitCode.Failure);
+  }
+}
+
+/**
+ * Get the exit code for an error that ended a run
+ */
+export function getExitCode(error: unknown): ExitCode {
+  return error instanceof ExitError ? error.exitCode : ExitCode.Failure;
+}
@@ -0,0 +1,301 @@
+import {
+  DatabaseObjectResponse,
+  PageObjectResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { Config, TemplateTimeBlock } from './types';
+import { addDays, formatDate, formatWallClock, getDayBounds, toInstant, toWallClock } from './date-utils';
+import { logger } from './logger';
+import { ConfigError } from './errors';
+
+/**
+ * Index of time blocks already present in the time blocks database for a date
+ */
+export interface ExistingBlockIndex {
+  // False when the time blocks database has no template key property,
+  // in which case blocks are matched by title instead
+  useKeyProperty: boolean;
+  // True when the time blocks database has a run ID property to tag new blocks with
+  useRunIdProperty: boolean;
+  // Pages by template key (or title), with the day each starts on
+  pages: Map<string, { page: PageObjectResponse; day: string }[]>;
+  // Every page on the days searched, including those not created from a template
+  allPages: PageObjectResponse[];
+  // Date properties the pages were looked up by
+  dateProperties: string[];
+}
+
+/**
+ * Get the stable key identifying a template
+ * Falls back to the title for templates saved before IDs were recorded
+ */
+export function getTemplateKey(template: TemplateTimeBlock): string {
+  return template.id || template.title;
+}
+
+/**
+ * Get the name of the first date property of a template
+ */
+export function getDatePropertyName(properties: Record<string, any>): string | null {
+  for (const [key, value] of Object.entries(properties)) {
+    if (value && typeof value === 'object' && value.type === 'date') {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the date property of the time blocks database that date range filters apply to
+ */
+export function findDateProperty(schema: DatabaseObjectResponse, config: Config): string {
+  if (config.datePropertyName) {
+    if (schema.properties[config.datePropertyName]?.type !== 'date') {
+      throw new ConfigError(
+        `NOTION_DATE_PROPERTY "${config.datePropertyName}" is not a date property of the time blocks database`
+      );
+    }
+    return config.datePropertyName;
+  }
+
+  const dateProperties = Object.values(schema.properties).filter((prop) => prop.type === 'date');
+  if (dateProperties.length !== 1) {
+    throw new ConfigError(
+      dateProperties.length === 0
+        ? 'Cannot filter by date: the time blocks database has no date property'
+        : 'Cannot filter by date: the time blocks database has several date properties. ' +
+            'Set NOTION_DATE_PROPERTY to choose one'
+    );
+  }
+
+  return dateProperties[0].name;
+}
+
+/**
+ * Load the time blocks that already exist for the target date, indexed by template key
+ * Blocks placed on later days (by an offset, or a template spanning several days)
+ * are searched for up to lastDay days after the target date.
+ * The schema is that of the time blocks database
+ */
+export async function loadExistingBlocks(
+  client: NotionClientWrapper,
+  config: Config,
+  schema: DatabaseObjectResponse,
+  templates: TemplateTimeBlock[],
+  targetDate: Date,
+  lastDay = 0
+): Promise<ExistingBlockIndex> {
+  const keyProperty = schema.properties[config.templateKeyProperty];
+  const useKeyProperty = keyProperty?.type === 'rich_text';
+
+  if (!useKeyProperty) {
+    logger.warn(
+      `  ⚠ Warning: Time blocks database has no text property "${config.templateKeyProperty}"`
+    );
+    logger.warn('     Existing blocks will be matched by title instead');
+  }
+
+  const useRunIdProperty = schema.properties[config.runIdProperty]?.type === 'rich_text';
+
+  const index: ExistingBlockIndex = {
+    useKeyProperty,
+    useRunIdProperty,
+    pages: new Map(),
+    allPages: [],
+    dateProperties: [],
+  };
+
+  // Only pages whose date property falls on the days searched can be duplicates
+  const datePropertyNames = new Set<string>();
+  for (const template of templates) {
+    const templateName = getDatePropertyName(template.properties);
+    const name = templateName && (config.propertyMap[templateName] || templateName);
+    if (name && schema.properties[name]?.type === 'date') {
+      datePropertyNames.add(name);
+    }
+  }
+
+  if (datePropertyNames.size === 0) {
+    return index;
+  }
+  index.dateProperties = [...datePropertyNames];
+
+  const lastDate = addDays(targetDate, lastDay);
+  const dateFilters = [...datePropertyNames].flatMap(
+    (property) => buildDaysFilter(property, targetDate, lastDate, config.timeZone).or
+  );
+
+  const pages: PageObjectResponse[] = [];
+  for (const page of await client.getAllPages(config.timeBlocksDatabase, { or: dateFilters })) {
+    const day = findPageDay(page, index.dateProperties, targetDate, lastDate, config.timeZone);
+    if (!day) {
+      continue;
+    }
+    pages.push(page);
+
+    const key = useKeyProperty
+      ? readPlainText(page.properties[config.templateKeyProperty])
+      : readPlainText(findTitleProperty(page));
+    if (key) {
+      index.pages.set(key, [...(index.pages.get(key) ?? []), { page, day }]);
+    }
+  }
+
+  index.allPages = pages;
+  return index;
+}
+
+/**
+ * Find the existing time block created from a template on the day its block goes on, if any
+ * The first match is kept so a pre-existing duplicate doesn't hide the original
+ */
+export function findExistingBlock(
+  index: ExistingBlockIndex,
+  template: TemplateTimeBlock,
+  day: string
+): PageObjectResponse | undefined {
+  const key = index.useKeyProperty ? getTemplateKey(template) : template.title;
+  return index.pages.get(key)?.find((entry) => entry.day === day)?.page;
+}
+
+/**
+ * Build the query filter for pages whose date property falls on a range of days
+ * Timed pages are matched on the days in the configured time zone, not the UTC days.
+ * All-day pages have no time, so they are looked up by their dates
+ */
+export function buildDaysFilter(property: string, firstDay: Date, lastDay: Date, timeZone: string) {
+  const start = getDayBounds(firstDay, timeZone).start;
+  const end = getDayBounds(lastDay, timeZone).end;
+  return {
+    or: [
+      {
+        and: [
+          { property, date: { on_or_after: start.toISOString() } },
+          { property, date: { before: end.toISOString() } },
+        ],
+      },
+      {
+        and: [
+          { property, date: { on_or_after: formatDate(firstDay) } },
+          { property, date: { on_or_before: formatDate(lastDay) } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Get the day a page starts on, if its date falls on a range of days
+ * Looking up by date also finds timed pages on the same UTC days, which this leaves out.
+ * Timed pages start on the day of their wall clock time in their own zone
+ */
+export function findPageDay(
+  page: PageObjectResponse,
+  dateProperties: string[],
+  firstDay: Date,
+  lastDay: Date,
+  timeZone: string
+): string | null {
+  const start = getDayBounds(firstDay, timeZone).start;
+  const end = getDayBounds(lastDay, timeZone).end;
+  const first = formatDate(firstDay);
+  const last = formatDate(lastDay);
+
+  for (const property of dateProperties) {
+    const date = (page.properties[property] as any)?.date;
+    if (!date?.start) {
+      continue;
+    }
+    if (date.start.length === 10) {
+      if (date.start >= first && date.start <= last) {
+        return date.start;
+      }
+      continue;
+    }
+    const zone = date.time_zone || timeZone;
+    const time = toInstant(date.start, zone);
+    if (time >= start && time < end) {
+      return formatWallClock(toWallClock(date.start, zone)).substring(0, 10);
+    }
+  }
+  return null;
+}
+
+/**
+ * Add the template key and run ID to the properties of a block about to be written
+ * Each is only added when the time blocks database has the property for it
+ */
+export function withTrackingProperties(
+  properties: Record<string, any>,
+  index: ExistingBlockIndex,
+  config: Config,
+  template: TemplateTimeBlock,
+  runId: string
+): Record<string, any> {
+  const tracked = { ...properties };
+
+  if (index.useKeyProperty) {
+    tracked[config.templateKeyProperty] = textValue(getTemplateKey(template));
+  }
+
+  if (index.useRunIdProperty) {
+    tracked[config.runIdProperty] = textValue(runId);
+  }
+
+  return tracked;
+}
+
+/**
+ * Find the block a run created from a template, by its tracking properties
+ * Used to tell whether a create that failed with a timeout went through
+ */
+export async function findCreatedBlock(
+  client: NotionClientWrapper,
+  config: Config,
+  templateKey: string,
+  runId: string
+): Promise<PageObjectResponse | undefined> {
+  const pages = await client.getAllPages(config.timeBlocksDatabase, {
+    and: [
+      { property: config.templateKeyProperty, rich_text: { equals: templateKey } },
+      { property: config.runIdProperty, rich_text: { equals: runId } },
+    ],
+  });
+  return pages[0];
+}
+
+/**
+ * Generate an ID identifying the blocks written by one scheduled run
+ */
+export function generateRunId(now: Date = new Date()): string {
+  const timestamp = now.toISOString().replace(/[-:]/g, '').substring(0, 15);
+  const suffix = Math.random().toString(36).substring(2, 6);
+  return `run-${timestamp}-${suffix}`;
+}
+
+/**
+ * Build a rich text property value holding plain text
+ */
+function textValue(content: string): Record<string, any> {
+  return { rich_text: [{ type: 'text', text: { content } }] };
+}
+
+/**
+ * Find the title property of a page
+ */
+function findTitleProperty(page: PageObjectResponse): any {
+  return Object.values(page.properties).find((prop) => prop.type === 'title');
+}
+
+/**
+ * Read the plain text of a title or rich text property
+ */
+function readPlainText(prop: any): string {
+  if (prop?.type === 'title') {
+    return prop.title.map((t: any) => t.plain_text).join('');
+  }
+  if (prop?.type === 'rich_text') {
+    return prop.rich_text.map((t: any) => t.plain_text).join('');
+  }
+  return '';
+}
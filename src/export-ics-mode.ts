@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import { PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { Config, ExportIcsOptions, PlannedChange } from './types';
+import { addDays, formatDate, parseTargetDate, toInstant } from './date-utils';
+import { buildDaysFilter, findDateProperty, findPageDay } from './existing-blocks';
+import { planTimeBlocks } from './scheduled-mode';
+import { CalendarEvent, formatIcsCalendar } from './ics';
+import { logger } from './logger';
+
+/**
+ * Export ICS mode: Write the time blocks of the target dates to an iCalendar file
+ * The blocks come from the time blocks database, or with the templates source,
+ * are planned from the templates the same way scheduled mode would create them
+ */
+export async function runExportIcsMode(
+  config: Config,
+  targetDates: Date[],
+  options: ExportIcsOptions
+): Promise<void> {
+  logger.info('Running export mode...');
+
+  const first = formatDate(targetDates[0]);
+  const last = formatDate(targetDates[targetDates.length - 1]);
+  logger.info(`Dates: ${first === last ? first : `${first} to ${last}`}`);
+  logger.info(`Source: ${options.source}`);
+
+  const events =
+    options.source === 'templates'
+      ? await planTemplateEvents(config, targetDates, options)
+      : await loadDatabaseEvents(config, targetDates);
+
+  await fs.writeFile(options.file, formatIcsCalendar(events), 'utf-8');
+  logger.info(`\n✓ Exported ${events.length} events to: ${options.file}`);
+}
+
+/**
+ * Read the time blocks of the target dates from the time blocks database
+ */
+async function loadDatabaseEvents(config: Config, targetDates: Date[]): Promise<CalendarEvent[]> {
+  logger.info(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+
+  const client = new NotionClientWrapper(config);
+  const schema = await client.getDatabaseSchema(config.timeBlocksDatabase);
+  const property = findDateProperty(schema, config);
+
+  const firstDay = targetDates[0];
+  const lastDay = targetDates[targetDates.length - 1];
+
+  // The date filter also finds timed pages on the same UTC days, which are left out
+  logger.info('\nFetching time blocks...');
+  const filter = buildDaysFilter(property, firstDay, lastDay, config.timeZone);
+  const pages = (await client.getAllPages(config.timeBlocksDatabase, filter)).filter((page) =>
+    findPageDay(page, [property], firstDay, lastDay, config.timeZone)
+  );
+  logger.info(`Found ${pages.length} time blocks`);
+
+  const events: CalendarEvent[] = [];
+  for (const page of pages) {
+    const prop = page.properties[property];
+    const date = prop?.type === 'date' ? prop.date : null;
+    if (!date?.start) {
+      continue;
+    }
+
+    events.push({
+      uid: `${page.id}@notion-time-blocks`,
+      summary: getPageTitle(page),
+      ...toEventTimes(date.start, date.end, date.time_zone || config.timeZone),
+      url: page.url,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Plan the time blocks the templates would create on the target dates
+ * Blocks that wouldn't be written (invalid, or skipped because of a conflict) are left out.
+ * Blocks that already exist are planned as updates, so days generated before are included
+ */
+async function planTemplateEvents(
+  config: Config,
+  targetDates: Date[],
+  options: ExportIcsOptions
+): Promise<CalendarEvent[]> {
+  const plan = await planTimeBlocks(config, targetDates, {
+    onExisting: 'update',
+    onConflict: options.onConflict,
+    skipValidation: options.skipValidation,
+    dryRun: true,
+    format: 'table',
+    failFast: false,
+    rollback: false,
+  });
+
+  const events: CalendarEvent[] = [];
+  for (const change of plan) {
+    if (change.errors.length > 0) {
+      logger.warn(`  ⚠ Warning: Leaving out ${change.title}: ${change.errors.join('; ')}`);
+      continue;
+    }
+    if ((change.action === 'skip' && change.conflict) || !change.start) {
+      continue;
+    }
+
+    // Keyed by template rather than title, so renaming a template keeps its events
+    events.push({
+      uid: `${change.date}-${change.templateKey}@notion-time-blocks`,
+      summary: change.title,
+      ...toEventTimes(change.start, change.end, getPlannedTimeZone(change) || config.timeZone),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Convert the start and end of a Notion date into event times
+ * Date-only values become all-day events, whose end is exclusive in iCalendar
+ */
+function toEventTimes(
+  start: string,
+  end: string | null,
+  timeZone: string
+): Pick<CalendarEvent, 'start' | 'end' | 'allDay'> {
+  if (start.length === 10) {
+    const lastDay = parseTargetDate(end || start);
+    return { start: parseTargetDate(start), end: addDays(lastDay, 1), allDay: true };
+  }
+
+  const startInstant = toInstant(start, timeZone);
+  return { start: startInstant, end: end ? toInstant(end, timeZone) : startInstant };
+}
+
+/**
+ * Get the time zone of the date property holding a planned block's times
+ */
+function getPlannedTimeZone(change: PlannedChange): string | null {
+  const date = Object.values(change.properties || {}).find(
+    (value) => value?.date?.start === change.start
+  )?.date;
+  return date?.time_zone || null;
+}
+
+/**
+ * Get the title of a page
+ */
+function getPageTitle(page: PageObjectResponse): string {
+  const titleProp = Object.values(page.properties).find((prop) => prop.type === 'title');
+  if (titleProp && titleProp.type === 'title' && titleProp.title.length > 0) {
+    return titleProp.title.map((t) => t.plain_text).join('');
+  }
+  return 'Untitled';
+}
@@ -0,0 +1,378 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { DayType } from './types';
+import { addDays, formatDate } from './date-utils';
+import { matchesRecurrence, parseRecurrence, RecurrenceRule } from './recurrence';
+import { parseIcsEvents, unescapeIcsText } from './ics';
+
+/**
+ * A holiday or a range of days off, e.g. a company shutdown
+ */
+export interface Holiday {
+  name: string;
+  start: Date;  // First calendar day (UTC midnight)
+  end: Date;  // Last calendar day, inclusive
+  rule?: RecurrenceRule | null;  // Yearly repeats from an ICS RRULE
+}
+
+/**
+ * Holidays from calendar files plus built-in country presets
+ * Preset holidays are worked out per year when first needed
+ */
+export interface HolidayCalendar {
+  holidays: Holiday[];
+  presets: string[];  // Country codes, e.g. "US"
+  presetYears: Map<string, Holiday[]>;  // "US-2024" -> that year's holidays
+}
+
+export const DAY_TYPES: DayType[] = ['workday', 'weekend', 'holiday'];
+
+/**
+ * Rules for the public holidays of a country in a given year
+ */
+type HolidayPreset = (year: number) => { name: string; date: Date }[];
+
+const PRESETS: Record<string, HolidayPreset> = {
+  // US federal holidays, observed on the nearest weekday
+  US: (year) =>
+    observeOnNearestWeekday([
+      { name: "New Year's Day", date: utcDate(year, 1, 1) },
+      { name: 'Martin Luther King Jr. Day', date: nthWeekday(year, 1, 1, 3) },
+      { name: "Washington's Birthday", date: nthWeekday(year, 2, 1, 3) },
+      { name: 'Memorial Day', date: nthWeekday(year, 5, 1, -1) },
+      { name: 'Juneteenth', date: utcDate(year, 6, 19) },
+      { name: 'Independence Day', date: utcDate(year, 7, 4) },
+      { name: 'Labor Day', date: nthWeekday(year, 9, 1, 1) },
+      { name: 'Columbus Day', date: nthWeekday(year, 10, 1, 2) },
+      { name: 'Veterans Day', date: utcDate(year, 11, 11) },
+      { name: 'Thanksgiving Day', date: nthWeekday(year, 11, 4, 4) },
+      { name: 'Christmas Day', date: utcDate(year, 12, 25) },
+    ]),
+  // England and Wales bank holidays, with substitute days for weekends
+  GB: (year) =>
+    substituteNextWeekday([
+      { name: "New Year's Day", date: utcDate(year, 1, 1) },
+      { name: 'Good Friday', date: addDays(easterSunday(year), -2) },
+      { name: 'Easter Monday', date: addDays(easterSunday(year), 1) },
+      { name: 'Early May bank holiday', date: nthWeekday(year, 5, 1, 1) },
+      { name: 'Spring bank holiday', date: nthWeekday(year, 5, 1, -1) },
+      { name: 'Summer bank holiday', date: nthWeekday(year, 8, 1, -1) },
+      { name: 'Christmas Day', date: utcDate(year, 12, 25) },
+      { name: 'Boxing Day', date: utcDate(year, 12, 26) },
+    ]),
+  // German nationwide holidays
+  DE: (year) => [
+    { name: 'Neujahr', date: utcDate(year, 1, 1) },
+    { name: 'Karfreitag', date: addDays(easterSunday(year), -2) },
+    { name: 'Ostermontag', date: addDays(easterSunday(year), 1) },
+    { name: 'Tag der Arbeit', date: utcDate(year, 5, 1) },
+    { name: 'Christi Himmelfahrt', date: addDays(easterSunday(year), 39) },
+    { name: 'Pfingstmontag', date: addDays(easterSunday(year), 50) },
+    { name: 'Tag der Deutschen Einheit', date: utcDate(year, 10, 3) },
+    { name: '1. Weihnachtstag', date: utcDate(year, 12, 25) },
+    { name: '2. Weihnachtstag', date: utcDate(year, 12, 26) },
+  ],
+  // French public holidays
+  FR: (year) => [
+    { name: "Jour de l'an", date: utcDate(year, 1, 1) },
+    { name: 'Lundi de Pâques', date: addDays(easterSunday(year), 1) },
+    { name: 'Fête du Travail', date: utcDate(year, 5, 1) },
+    { name: 'Victoire 1945', date: utcDate(year, 5, 8) },
+    { name: 'Ascension', date: addDays(easterSunday(year), 39) },
+    { name: 'Lundi de Pentecôte', date: addDays(easterSunday(year), 50) },
+    { name: 'Fête nationale', date: utcDate(year, 7, 14) },
+    { name: 'Assomption', date: utcDate(year, 8, 15) },
+    { name: 'Toussaint', date: utcDate(year, 11, 1) },
+    { name: 'Armistice 1918', date: utcDate(year, 11, 11) },
+    { name: 'Noël', date: utcDate(year, 12, 25) },
+  ],
+  // Canadian federal statutory holidays
+  CA: (year) => [
+    { name: "New Year's Day", date: utcDate(year, 1, 1) },
+    { name: 'Good Friday', date: addDays(easterSunday(year), -2) },
+    { name: 'Victoria Day', date: mondayBefore(utcDate(year, 5, 25)) },
+    { name: 'Canada Day', date: utcDate(year, 7, 1) },
+    { name: 'Labour Day', date: nthWeekday(year, 9, 1, 1) },
+    { name: 'Thanksgiving', date: nthWeekday(year, 10, 1, 2) },
+    { name: 'Remembrance Day', date: utcDate(year, 11, 11) },
+    { name: 'Christmas Day', date: utcDate(year, 12, 25) },
+    { name: 'Boxing Day', date: utcDate(year, 12, 26) },
+  ],
+};
+
+/**
+ * Load a holiday calendar from a list of sources
+ * Each source is an ICS file, a YAML file, or a country preset (US, GB, DE, FR, CA)
+ */
+export async function loadHolidayCalendar(sources: string[]): Promise<HolidayCalendar> {
+  const calendar: HolidayCalendar = { holidays: [], presets: [], presetYears: new Map() };
+
+  for (const source of sources) {
+    const preset = source.toUpperCase();
+    if (PRESETS[preset]) {
+      calendar.presets.push(preset);
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(source, 'utf-8');
+    } catch (error) {
+      throw new Error(
+        `Holiday calendar "${source}" is neither a readable file nor a preset ` +
+          `(${Object.keys(PRESETS).join(', ')}): ${(error as Error).message}`
+      );
+    }
+
+    const extension = path.extname(source).toLowerCase();
+    try {
+      calendar.holidays.push(
+        ...(extension === '.ics' ? parseIcsHolidays(content) : parseYamlHolidays(content))
+      );
+    } catch (error) {
+      throw new Error(`Holiday calendar ${source}: ${(error as Error).message}`);
+    }
+  }
+
+  return calendar;
+}
+
+/**
+ * Find the holiday a calendar day falls on, if any
+ */
+export function findHoliday(calendar: HolidayCalendar, date: Date): Holiday | null {
+  const time = date.getTime();
+
+  for (const holiday of calendar.holidays) {
+    if (holiday.rule) {
+      // A repeating event: check the occurrence that would cover this day
+      const length = Math.round((holiday.end.getTime() - holiday.start.getTime()) / 86400000);
+      for (let back = 0; back <= length; back++) {
+        const occurrence = addDays(date, -back);
+        if (
+          occurrence.getTime() >= holiday.start.getTime() &&
+          matchesRecurrence(holiday.rule, occurrence, holiday.start)
+        ) {
+          return holiday;
+        }
+      }
+    } else if (time >= holiday.start.getTime() && time <= holiday.end.getTime()) {
+      return holiday;
+    }
+  }
+
+  for (const preset of calendar.presets) {
+    // Next year's New Year's Day may be observed on December 31
+    for (const year of [date.getUTCFullYear(), date.getUTCFullYear() + 1]) {
+      const key = `${preset}-${year}`;
+      if (!calendar.presetYears.has(key)) {
+        calendar.presetYears.set(
+          key,
+          PRESETS[preset](year).map(({ name, date }) => ({ name, start: date, end: date }))
+        );
+      }
+
+      const holiday = calendar.presetYears.get(key)!.find((day) => day.start.getTime() === time);
+      if (holiday) {
+        return holiday;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out the day type of a calendar day
+ */
+export function getDayType(date: Date, holiday: Holiday | null): DayType {
+  if (holiday) {
+    return 'holiday';
+  }
+  const weekday = date.getUTCDay();
+  return weekday === 0 || weekday === 6 ? 'weekend' : 'workday';
+}
+
+/**
+ * Check whether a template applies on a day type
+ * Templates without day types apply on workdays and weekends, not on holidays
+ */
+export function matchesDayType(dayTypes: DayType[] | undefined, dayType: DayType): boolean {
+  if (!dayTypes || dayTypes.length === 0) {
+    return dayType !== 'holiday';
+  }
+  return dayTypes.includes(dayType);
+}
+
+/**
+ * Parse a list of day types like "workday, holiday"
+ */
+export function parseDayTypes(value: string | string[] | undefined): DayType[] {
+  const names = (Array.isArray(value) ? value : (value || '').split(','))
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const name of names) {
+    if (!DAY_TYPES.includes(name as DayType)) {
+      throw new Error(`Invalid day type "${name}" (expected ${DAY_TYPES.join(', ')})`);
+    }
+  }
+
+  return names as DayType[];
+}
+
+/**
+ * Parse a YAML holiday list
+ * Entries are dates, or objects with a date, an optional inclusive end date and a name
+ */
+function parseYamlHolidays(content: string): Holiday[] {
+  const data = yaml.load(content) as any;
+  const entries = Array.isArray(data) ? data : data?.holidays;
+
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a list of holidays, or a "holidays" list');
+  }
+
+  return entries.map((entry: any) => {
+    const value = entry && typeof entry === 'object' && !(entry instanceof Date) ? entry : { date: entry };
+    const start = parseCalendarDate(value.date);
+    const end = value.end !== undefined ? parseCalendarDate(value.end) : start;
+
+    if (end.getTime() < start.getTime()) {
+      throw new Error(`Holiday ending before it starts: ${formatDate(start)} to ${formatDate(end)}`);
+    }
+
+    return { name: value.name ? String(value.name) : 'Holiday', start, end };
+  });
+}
+
+/**
+ * Parse the all-day events of an iCalendar file
+ * Timed events are read by their start date. DTEND is exclusive, as in the spec
+ */
+function parseIcsHolidays(content: string): Holiday[] {
+  return parseIcsEvents(content).map((event) => {
+    const summary = event.SUMMARY ? unescapeIcsText(event.SUMMARY.value) : 'untitled';
+    if (!event.DTSTART) {
+      throw new Error(`Event "${summary}" has no DTSTART`);
+    }
+
+    const start = parseIcsDate(event.DTSTART.value);
+    const end = event.DTEND ? addDays(parseIcsDate(event.DTEND.value), -1) : start;
+    return {
+      name: event.SUMMARY ? summary.replace(/\s+/g, ' ') : 'Holiday',
+      start,
+      end: end.getTime() < start.getTime() ? start : end,
+      rule: event.RRULE ? parseRecurrence(`RRULE:${event.RRULE.value}`) : null,
+    };
+  });
+}
+
+/**
+ * Parse an iCalendar date or date-time value into its calendar day
+ */
+function parseIcsDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  return utcDate(+match[1], +match[2], +match[3]);
+}
+
+/**
+ * Parse a calendar date from YAML, which reads unquoted dates as Date objects
+ */
+function parseCalendarDate(value: unknown): Date {
+  if (value instanceof Date) {
+    return utcDate(value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate());
+  }
+
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (!match) {
+    throw new Error(`Expected a date like 2024-12-24, got ${JSON.stringify(value)}`);
+  }
+  return utcDate(+match[1], +match[2], +match[3]);
+}
+
+/**
+ * Make a calendar day at UTC midnight (month is 1-based)
+ */
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Get the nth weekday of a month (weekday: 0 = Sunday; nth: -1 for the last)
+ */
+function nthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+  if (nth < 0) {
+    const last = utcDate(year, month + 1, 0);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+
+  const first = utcDate(year, month, 1);
+  return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (nth - 1) * 7);
+}
+
+/**
+ * Get the last Monday before a date
+ */
+function mondayBefore(date: Date): Date {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return addDays(date, -(daysSinceMonday || 7));
+}
+
+/**
+ * Get the date of Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return utcDate(year, month, day);
+}
+
+/**
+ * Move holidays falling on Saturday to Friday and on Sunday to Monday
+ */
+function observeOnNearestWeekday(days: { name: string; date: Date }[]): { name: string; date: Date }[] {
+  return days.map(({ name, date }) => {
+    const weekday = date.getUTCDay();
+    const shift = weekday === 6 ? -1 : weekday === 0 ? 1 : 0;
+    return { name: shift ? `${name} (observed)` : name, date: addDays(date, shift) };
+  });
+}
+
+/**
+ * Move holidays falling on a weekend to the next weekday that isn't already a holiday
+ */
+function substituteNextWeekday(days: { name: string; date: Date }[]): { name: string; date: Date }[] {
+  const taken = new Set(days.map(({ date }) => date.getTime()));
+
+  return days.map(({ name, date }) => {
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      return { name, date };
+    }
+
+    let substitute = addDays(date, weekday === 6 ? 2 : 1);
+    while (taken.has(substitute.getTime())) {
+      substitute = addDays(substitute, 1);
+    }
+    taken.add(substitute.getTime());
+    return { name: `${name} (substitute day)`, date: substitute };
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * A property of an iCalendar component, e.g. DTSTART;TZID=Europe/Berlin:20240315T090000
+ */
+export interface IcsProperty {
+  value: string;
+  params: Record<string, string>;  // e.g. { TZID: 'Europe/Berlin', VALUE: 'DATE' }
+}
+
+/**
+ * The properties of a VEVENT by name; repeated properties keep the first value
+ */
+export type IcsEvent = Record<string, IcsProperty>;
+
+/**
+ * An event to write to an iCalendar file
+ * Times are instants, or calendar days (UTC midnight) for all-day events
+ */
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  description?: string;
+  url?: string;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file
+ */
+export function parseIcsEvents(content: string): IcsEvent[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let event: IcsEvent | null = null;
+  let depth = 0;  // Nesting inside the event, e.g. a VALARM
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      depth = 0;
+    } else if (line === 'END:VEVENT' && event) {
+      events.push(event);
+      event = null;
+    } else if (event && line.startsWith('BEGIN:')) {
+      depth++;
+    } else if (event && line.startsWith('END:')) {
+      depth--;
+    } else if (event && depth === 0) {
+      // "DTSTART;VALUE=DATE:20241225" -> DTSTART = { value: 20241225, params: { VALUE: DATE } }
+      const match = line.match(/^([A-Za-z-]+)((?:;[^:;]+=(?:"[^"]*"|[^:;]*))*):(.*)$/);
+      if (match && !event[match[1].toUpperCase()]) {
+        const params: Record<string, string> = {};
+        for (const param of match[2].split(';').filter(Boolean)) {
+          const [name, ...rest] = param.split('=');
+          params[name.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+        }
+        event[match[1].toUpperCase()] = { value: match[3], params };
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Write events as an iCalendar file
+ * Timed events are written in UTC, so no time zone definitions are needed
+ */
+export function formatIcsCalendar(events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//notion-time-blocks//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeIcsText(event.uid)}`,
+      `DTSTAMP:${formatIcsDateTime(now)}`,
+      event.allDay ? `DTSTART;VALUE=DATE:${formatIcsDate(event.start)}` : `DTSTART:${formatIcsDateTime(event.start)}`,
+      event.allDay ? `DTEND;VALUE=DATE:${formatIcsDate(event.end)}` : `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Undo iCalendar text escaping
+ */
+export function unescapeIcsText(text: string): string {
+  return text.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Escape text for an iCalendar property value
+ */
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Format an instant as a UTC iCalendar date-time, e.g. 20240315T140000Z
+ */
+function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a calendar day (UTC midnight) as an iCalendar date, e.g. 20240315
+ */
+function formatIcsDate(date: Date): string {
+  return date.toISOString().substring(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Fold a line longer than 75 octets onto continuation lines
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
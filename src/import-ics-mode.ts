@@ -0,0 +1,335 @@
+import fs from 'fs/promises';
+import yaml from 'js-yaml';
+import {
+  Config,
+  LocalTemplate,
+  LocalTemplatesFile,
+  SavedTemplates,
+  TemplateBlock,
+  TemplateTimeBlock,
+} from './types';
+import {
+  formatWallClock,
+  instantToWallClock,
+  resolveTimeZone,
+  toInstant,
+} from './date-utils';
+import { loadSavedSchema } from './payload-validation';
+import { parseRecurrence } from './recurrence';
+import { toExplicitOffset } from './offsets';
+import { IcsEvent, IcsProperty, parseIcsEvents, unescapeIcsText } from './ics';
+import { ConfigError } from './errors';
+import { logger } from './logger';
+
+/**
+ * A timed calendar event, read into the time zone it will be written in
+ */
+interface ImportedEvent {
+  title: string;
+  start: Date;
+  end: Date;
+  timeZone: string;  // Zone of DTSTART, or the configured zone for UTC and floating times
+  recurrence?: string;
+  description?: string;
+}
+
+/**
+ * Import ICS mode: Convert the events of an iCalendar file into templates
+ * Events are added to the saved templates (.notion-templates.yaml), from where
+ * --push can create them in the templates database. With a local templates file,
+ * they are appended to that file instead
+ */
+export async function runImportIcsMode(config: Config, filePath: string): Promise<void> {
+  logger.info('Running import mode...');
+  logger.info(`Calendar file: ${filePath}`);
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Could not read ${filePath}: ${(error as Error).message}`);
+  }
+
+  const events = parseIcsEvents(content);
+  logger.info(`Found ${events.length} events`);
+
+  const imported: ImportedEvent[] = [];
+  for (const event of events) {
+    const title = event.SUMMARY ? unescapeIcsText(event.SUMMARY.value).trim() : 'Untitled';
+    try {
+      const converted = convertEvent(event, title, config.timeZone);
+      if (converted) {
+        imported.push(converted);
+      }
+    } catch (error) {
+      logger.warn(`  ⚠ Warning: Skipping "${title}": ${(error as Error).message}`);
+    }
+  }
+
+  if (imported.length === 0) {
+    throw new ConfigError(`No timed events to import from ${filePath}`);
+  }
+
+  if (config.localTemplatesFilePath) {
+    await appendLocalTemplates(config.localTemplatesFilePath, imported, config);
+  } else {
+    await appendSavedTemplates(imported, config);
+  }
+
+  logger.info('\n✓ Import mode completed successfully!');
+}
+
+/**
+ * Read a VEVENT as a timed event
+ * Returns null for events that can't become time blocks (all-day, cancelled)
+ */
+function convertEvent(event: IcsEvent, title: string, defaultTimeZone: string): ImportedEvent | null {
+  if (event.STATUS?.value.toUpperCase() === 'CANCELLED') {
+    return null;
+  }
+  if (!event.DTSTART) {
+    throw new Error('No DTSTART');
+  }
+  if (event.DTSTART.params.VALUE === 'DATE' || /^\d{8}$/.test(event.DTSTART.value)) {
+    logger.warn(`  ⚠ Warning: Skipping all-day event "${title}"`);
+    return null;
+  }
+
+  const start = readIcsDateTime(event.DTSTART, defaultTimeZone);
+  let end: Date;
+  if (event.DTEND) {
+    end = readIcsDateTime(event.DTEND, defaultTimeZone).instant;
+  } else if (event.DURATION) {
+    end = new Date(start.instant.getTime() + parseIcsDuration(event.DURATION.value));
+  } else {
+    throw new Error('No DTEND or DURATION');
+  }
+
+  if (end.getTime() <= start.instant.getTime()) {
+    throw new Error('The event ends before it starts');
+  }
+
+  // Without its rule, a recurring event would be imported as a template for every day
+  let recurrence: string | undefined;
+  if (event.RRULE) {
+    recurrence = `RRULE:${event.RRULE.value}`;
+    try {
+      parseRecurrence(recurrence);
+    } catch (error) {
+      throw new Error(`Its recurrence rule isn't supported (${(error as Error).message})`);
+    }
+  }
+
+  const description = event.DESCRIPTION ? unescapeIcsText(event.DESCRIPTION.value).trim() : '';
+
+  return {
+    title,
+    start: start.instant,
+    end,
+    timeZone: start.timeZone,
+    ...(recurrence ? { recurrence } : {}),
+    ...(description ? { description } : {}),
+  };
+}
+
+/**
+ * Add the events to the saved templates, in the format init mode saves
+ * The description of an event becomes the page content of its template
+ */
+async function appendSavedTemplates(events: ImportedEvent[], config: Config): Promise<void> {
+  const schema = await loadSavedSchema(config.schemaFilePath);
+  const properties = schema.database.properties as Record<string, any>;
+
+  const titleProperty = Object.keys(properties).find((name) => properties[name].type === 'title');
+  const dateProperties = Object.keys(properties).filter((name) => properties[name].type === 'date');
+  const dateProperty =
+    config.datePropertyName && properties[config.datePropertyName]?.type === 'date'
+      ? config.datePropertyName
+      : dateProperties.length === 1
+        ? dateProperties[0]
+        : null;
+
+  if (!titleProperty || !dateProperty) {
+    throw new ConfigError(
+      'The saved schema needs a title property and exactly one date property ' +
+        '(set NOTION_DATE_PROPERTY to choose one)'
+    );
+  }
+
+  let saved: SavedTemplates = { templates: [], savedAt: new Date().toISOString() };
+  try {
+    saved = yaml.load(await fs.readFile(config.templatesFilePath, 'utf-8')) as SavedTemplates;
+  } catch {
+    // No templates saved yet
+  }
+
+  const templates: TemplateTimeBlock[] = events.map((event) => {
+    const wallClock = (instant: Date) => formatWallClock(instantToWallClock(instant, event.timeZone));
+    return {
+      title: event.title,
+      ...(event.recurrence ? { recurrence: event.recurrence } : {}),
+      properties: {
+        [titleProperty]: {
+          type: 'title',
+          title: [{ type: 'text', text: { content: event.title }, plain_text: event.title }],
+        },
+        [dateProperty]: {
+          type: 'date',
+          date: { start: wallClock(event.start), end: wallClock(event.end), time_zone: event.timeZone },
+        },
+      },
+      ...(event.description ? { content: toParagraphs(event.description) } : {}),
+    };
+  });
+
+  // Without offsets, the events' own dates would shift the reference date of the other templates
+  for (const template of templates) {
+    const offset = toExplicitOffset(template, null, config.timeZone);
+    if (offset) {
+      template.offset = offset;
+    }
+  }
+
+  // savedAt is kept: the new templates have no page yet, so they can't conflict with Notion
+  await fs.writeFile(
+    config.templatesFilePath,
+    yaml.dump(
+      { ...saved, templates: [...saved.templates, ...templates] },
+      { lineWidth: -1, noRefs: true }
+    ),
+    'utf-8'
+  );
+  logger.info(`✓ ${templates.length} templates added to: ${config.templatesFilePath}`);
+  if (config.templatesDatabase) {
+    logger.info('  To create them in the templates database, run with: --push --confirm');
+  }
+}
+
+/**
+ * Append the events to a local templates file, creating it if needed
+ * The file is appended to rather than rewritten, so its comments are kept
+ */
+async function appendLocalTemplates(
+  filePath: string,
+  events: ImportedEvent[],
+  config: Config
+): Promise<void> {
+  let existing: string | null = null;
+  try {
+    existing = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    // A new file is created
+  }
+
+  const file = existing !== null ? (yaml.load(existing) as LocalTemplatesFile) : null;
+  const timeZone = file?.timeZone ? resolveTimeZone(String(file.timeZone)) : config.timeZone;
+
+  const templates: LocalTemplate[] = [];
+  for (const event of events) {
+    const start = instantToWallClock(event.start, timeZone);
+    const end = instantToWallClock(event.end, timeZone);
+    const time = (wall: typeof start) => formatWallClock(wall).substring(11, 16);
+
+    if (event.end.getTime() - event.start.getTime() >= 24 * 60 * 60 * 1000) {
+      logger.warn(`  ⚠ Warning: Skipping "${event.title}": local templates can't be 24 hours or longer`);
+      continue;
+    }
+
+    // Recurrence intervals and weekdays count from the event's first day, not the file's anchor
+    templates.push({
+      title: event.title,
+      start: time(start),
+      end: time(end),
+      ...(event.recurrence
+        ? { recurrence: event.recurrence, anchor: formatWallClock(start).substring(0, 10) }
+        : {}),
+    });
+  }
+
+  const items = yaml
+    .dump(templates, { lineWidth: -1 })
+    .replace(/^(?=.)/gm, '  ');
+
+  if (existing === null) {
+    await fs.writeFile(filePath, `timeZone: ${timeZone}\n\ntemplates:\n${items}`, 'utf-8');
+  } else {
+    const combined = `${existing.replace(/\n*$/, '\n')}\n${items}`;
+
+    // Appending only works when the templates list ends the file
+    let appended: LocalTemplatesFile | null = null;
+    try {
+      appended = yaml.load(combined) as LocalTemplatesFile;
+    } catch {
+      // Reported below
+    }
+    if (appended?.templates?.length !== (file?.templates?.length ?? 0) + templates.length) {
+      throw new ConfigError(
+        `Can't append to ${filePath}: the "templates" list has to come last in the file. ` +
+          'Import into a new file with --templates <file> instead'
+      );
+    }
+
+    await fs.writeFile(filePath, combined, 'utf-8');
+  }
+
+  logger.info(`✓ ${templates.length} templates added to: ${filePath}`);
+}
+
+/**
+ * Read an iCalendar date-time as an instant, with the zone its wall clock time is in
+ * UTC and floating times are given the configured zone
+ */
+function readIcsDateTime(prop: IcsProperty, defaultTimeZone: string): { instant: Date; timeZone: string } {
+  const match = prop.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) {
+    throw new Error(`Invalid date-time "${prop.value}"`);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (utc) {
+    return {
+      instant: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)),
+      timeZone: defaultTimeZone,
+    };
+  }
+
+  let timeZone = defaultTimeZone;
+  if (prop.params.TZID) {
+    try {
+      timeZone = resolveTimeZone(prop.params.TZID);
+    } catch {
+      logger.warn(`  ⚠ Warning: Unknown time zone "${prop.params.TZID}"; reading the time in ${defaultTimeZone}`);
+    }
+  }
+
+  return {
+    instant: toInstant(`${year}-${month}-${day}T${hour}:${minute}:${second}`, timeZone),
+    timeZone,
+  };
+}
+
+/**
+ * Parse an iCalendar duration like PT1H30M or P1D into milliseconds
+ */
+function parseIcsDuration(value: string): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}"`);
+  }
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => +(part || 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Turn text into paragraph blocks, one per line
+ */
+function toParagraphs(text: string): TemplateBlock[] {
+  return text
+    .split(/\n+/)
+    .filter((line) => line.trim())
+    .map((line) => ({
+      type: 'paragraph',
+      paragraph: { rich_text: [{ type: 'text', text: { content: line } }] },
+    }));
+}
@@ -1,22 +1,59 @@
 #!/usr/bin/env node
 
+import path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { getConfig } from './config';
+import { getConfig, getProfileConfigs, withProfileSuffix } from './config';
 import { runInitMode } from './init-mode';
 import { runScheduledMode } from './scheduled-mode';
 import { runPurgeMode } from './purge-mode';
-import { parseTargetDate } from './date-utils';
+import { runRestoreMode } from './restore-mode';
+import { runValidateMode } from './validate-mode';
+import { runPushMode } from './push-mode';
+import { runExportIcsMode } from './export-ics-mode';
+import { runImportIcsMode } from './import-ics-mode';
+import { runDaemonMode } from './daemon-mode';
+import { runReconcileMode } from './reconcile-mode';
+import { runMigrateMode } from './migrate-mode';
+import { parseDateRange, parseTargetDates, resolveTimeZone } from './date-utils';
+import { parseVariables } from './placeholders';
+import { configureLogger, logger, setLogContext } from './logger';
+import { ConfigError, ExitCode, ExitError, getExitCode } from './errors';
+import {
+  Config,
+  ConflictPolicy,
+  ExistingBlockPolicy,
+  IcsSource,
+  PlanFormat,
+  ReportFormat,
+  ScheduledModeOptions,
+} from './types';
 
-async function main() {
-  const argv = await yargs(hideBin(process.argv))
+/**
+ * Parse the command line
+ */
+function parseArgs() {
+  return yargs(hideBin(process.argv))
     .usage('Usage: $0 [date] [options]')
     .command('$0 [date]', 'Create time blocks for the specified date (defaults to today)', (yargs) => {
       return yargs.positional('date', {
-        describe: 'Target date (ISO format: YYYY-MM-DD)',
+        describe: 'Target date (YYYY-MM-DD, today, tomorrow, +5d, next-week, ...)',
         type: 'string',
       });
     })
+    .option('profile', {
+      type: 'string',
+      array: true,
+      description: 'Run with named profiles from notion-time-blocks.yaml (repeatable or comma-separated, "all" for every profile)',
+    })
+    .option('from', {
+      type: 'string',
+      description: 'First date of a range to create time blocks for',
+    })
+    .option('to', {
+      type: 'string',
+      description: 'Last date of a range to create time blocks for (inclusive)',
+    })
     .option('init', {
       alias: 'i',
       type: 'boolean',
@@ -26,46 +63,419 @@ async function main() {
     .option('purge', {
       alias: 'p',
       type: 'boolean',
-      description: 'Purge mode: delete all time blocks',
+      description: 'Purge mode: delete all time blocks (or those matching --from/--to, --template, --run-id)',
+      default: false,
+    })
+    .option('validate', {
+      type: 'boolean',
+      description: 'Validate mode: compare the time blocks database with the saved templates schema',
+      default: false,
+    })
+    .option('skip-validation', {
+      type: 'boolean',
+      description: 'Create time blocks even if the time blocks database schema has errors',
+      default: false,
+    })
+    .option('restore', {
+      type: 'boolean',
+      description: 'Restore mode: un-archive the time blocks deleted by the last purge',
+      default: false,
+    })
+    .option('push', {
+      type: 'boolean',
+      description: 'Push mode: sync edits to the local templates back to the templates database',
+      default: false,
+    })
+    .option('export-ics', {
+      type: 'string',
+      description: 'Export mode: write the time blocks of the date(s) to an .ics calendar file',
+    })
+    .option('source', {
+      type: 'string',
+      choices: ['database', 'templates'],
+      description: 'Export the time blocks in the time blocks database, or those the templates would create',
+      default: 'database',
+    })
+    .option('import-ics', {
+      type: 'string',
+      description: 'Import mode: add the events of an .ics calendar file to the templates',
+    })
+    .option('reconcile', {
+      type: 'boolean',
+      description: 'Reconcile mode: compare the planned time blocks of the date(s) with what was done',
+      default: false,
+    })
+    .option('migrate-offsets', {
+      type: 'boolean',
+      description: 'Migrate mode: give the saved templates explicit offsets instead of the reference date',
       default: false,
     })
+    .option('daemon', {
+      type: 'boolean',
+      description: 'Daemon mode: keep running and create time blocks every day at NOTION_DAEMON_TIME',
+      default: false,
+    })
+    .option('port', {
+      type: 'number',
+      description: 'Port of the daemon health endpoint on localhost, 0 for none (overrides NOTION_DAEMON_PORT)',
+    })
+    .option('force', {
+      type: 'boolean',
+      description: 'Push even if templates were edited in Notion since they were saved',
+      default: false,
+    })
+    .option('template', {
+      type: 'string',
+      description: 'Only purge time blocks created from this template (title or key)',
+    })
+    .option('run-id', {
+      type: 'string',
+      description: 'Only purge time blocks created by this scheduled run',
+    })
     .option('confirm', {
       alias: 'y',
       type: 'boolean',
-      description: 'Confirm destructive operations (required for --purge)',
+      description: 'Confirm destructive operations (required for --purge and --push)',
+      default: false,
+    })
+    .option('time-zone', {
+      alias: 'tz',
+      type: 'string',
+      description: 'IANA time zone for template times (overrides NOTION_TIME_ZONE)',
+    })
+    .option('concurrency', {
+      type: 'number',
+      description: 'Notion requests in flight at once for purge/restore (overrides NOTION_CONCURRENCY)',
+    })
+    .option('templates', {
+      type: 'string',
+      description: 'Read templates from a hand-written YAML file (overrides NOTION_TEMPLATES_FILE)',
+    })
+    .option('rules', {
+      type: 'string',
+      description: 'Apply the property rules of a YAML file to the created time blocks (overrides NOTION_RULES_FILE)',
+    })
+    .option('var', {
+      type: 'string',
+      array: true,
+      description: 'Set a custom {{placeholder}} as name=value (repeatable, overrides NOTION_TEMPLATE_VARS)',
+    })
+    .option('on-existing', {
+      type: 'string',
+      choices: ['skip', 'update', 'recreate'],
+      description: 'What to do with time blocks that already exist for the date',
+      default: 'skip',
+    })
+    .option('on-conflict', {
+      type: 'string',
+      choices: ['warn', 'skip', 'shift', 'shrink'],
+      description: 'What to do with time blocks overlapping other pages on the date, like meetings',
+      default: 'warn',
+    })
+    .option('dry-run', {
+      alias: 'n',
+      type: 'boolean',
+      description: 'Show what would be created, updated or deleted without writing to Notion',
+      default: false,
+    })
+    .option('format', {
+      type: 'string',
+      choices: ['table', 'csv', 'json'],
+      description: 'Output format of the --dry-run plan (table or json) or the --reconcile report',
+      default: 'table',
+    })
+    .option('fail-fast', {
+      type: 'boolean',
+      description: 'Stop at the first time block (or profile) that fails',
+      default: false,
+    })
+    .option('rollback', {
+      type: 'boolean',
+      description: 'Archive the time blocks created by a run that fails',
+      default: false,
+    })
+    .option('quiet', {
+      alias: 'q',
+      type: 'boolean',
+      description: 'Only log warnings and errors',
+      default: false,
+    })
+    .option('verbose', {
+      type: 'boolean',
+      description: 'Also log debugging details, like the template and new times of each block',
       default: false,
     })
+    .option('json', {
+      type: 'boolean',
+      description: 'Log one JSON event per line instead of text',
+      default: false,
+    })
+    .option('report', {
+      type: 'string',
+      description: 'Write a JSON report of the scheduled or purge run to this file (overrides NOTION_REPORT_FILE)',
+    })
     .example('$0 --init', 'Initialize schema and templates')
     .example('$0', 'Create time blocks for today')
     .example('$0 2024-03-15', 'Create time blocks for March 15, 2024')
+    .example('$0 --from 2024-03-18 --to 2024-03-22', 'Create time blocks for each day of a range')
+    .example('$0 next-week', 'Create time blocks for every day of next week')
+    .example('$0 --time-zone America/New_York', 'Create time blocks using New York wall clock times')
+    .example('$0 2024-03-15 --on-existing update', 'Re-run for a date, updating existing blocks')
+    .example('$0 tomorrow --profile workday,on-call', 'Create tomorrow\'s time blocks for two profiles')
+    .example('$0 --templates schedules/week.yaml', 'Create time blocks from a local templates file')
+    .example('$0 --rules property-rules.yaml', 'Reset, clear or compute properties of the created time blocks')
+    .example('$0 --var project=Apollo', 'Fill {{project}} in template titles with "Apollo"')
+    .example('$0 tomorrow --on-conflict shift', 'Move time blocks that overlap meetings to the next free slot')
+    .example('$0 next-week --dry-run', 'Preview the time blocks for next week')
+    .example('$0 --purge --dry-run --format json', 'List the time blocks a purge would delete, as JSON')
+    .example('$0 next-week --fail-fast --rollback', 'Stop at the first failure and archive what the run created')
+    .example('$0 --validate', 'Check the time blocks database schema against the templates')
     .example('$0 --purge --confirm', 'Delete all time blocks from database')
+    .example('$0 --purge --from 2024-03-01 --to 2024-03-31 --confirm', 'Delete the time blocks of March 2024')
+    .example('$0 --purge --run-id run-20240315T060000-ab12 --confirm', 'Delete the time blocks created by one run')
+    .example('$0 --restore', 'Un-archive the time blocks deleted by the last purge')
+    .example('$0 next-week --export-ics week.ics', 'Export next week\'s time blocks to a calendar file')
+    .example('$0 tomorrow --export-ics plan.ics --source templates', 'Export the time blocks the templates would create')
+    .example('$0 --import-ics calendar.ics', 'Add the events of a calendar file as templates')
+    .example('$0 --quiet --json --report run.json', 'Log JSON warnings and errors for cron, and save a run report')
+    .example('$0 last-week --reconcile', 'Compare last week\'s planned hours with the hours done')
+    .example('$0 --from 2024-03-01 --to 2024-03-31 --reconcile --format csv', 'Planned vs. done for March as CSV')
+    .example('$0 --migrate-offsets --dry-run', 'Show the offsets the saved templates would get')
+    .example('$0 --daemon --profile all', 'Keep running, creating each profile\'s time blocks at its daemon time')
+    .example('$0 --push', 'Show the changes pushing the local templates would make')
+    .example('$0 --push --confirm', 'Push the local templates to the templates database')
     .help('h')
     .alias('h', 'help')
     .version('1.0.0')
     .alias('v', 'version')
     .parseAsync();
+}
+
+type Args = Awaited<ReturnType<typeof parseArgs>>;
+
+async function main() {
+  const argv = await parseArgs();
+
+  // Keep stdout for the dry-run plan or reconcile report so it can be piped; progress goes to stderr
+  configureLogger({
+    level: argv.verbose ? 'debug' : argv.quiet ? 'warn' : 'info',
+    json: argv.json,
+    stderr: Boolean(argv.dryRun || argv.reconcile),
+  });
 
   try {
-    const config = getConfig();
-
-    if (argv.init) {
-      // Run init mode
-      await runInitMode(config);
-    } else if (argv.purge) {
-      // Run purge mode
-      await runPurgeMode(config, argv.confirm as boolean);
-    } else {
-      // Run scheduled mode
-      const targetDate = parseTargetDate(argv.date as string | undefined);
-      await runScheduledMode(config, targetDate);
+    const configs = readOptions(() =>
+      argv.profile
+        ? getProfileConfigs(argv.profile.flatMap((names) => String(names).split(',')).map((name) => name.trim()))
+        : [getConfig()]
+    );
+
+    if (argv.daemon) {
+      // The daemon schedules every profile itself and runs until stopped
+      for (const config of configs) {
+        readOptions(() => applyOverrides(config, argv));
+      }
+      await runDaemonMode(configs, getScheduledOptions(argv));
+      return;
+    }
+
+    const failed: string[] = [];
+    const exitCodes = new Set<ExitCode>();
+    let succeeded = 0;
+
+    for (const config of configs) {
+      if (!config.profile) {
+        await runMode(config, argv);
+        continue;
+      }
+
+      // Profiles run one after another; a failing profile doesn't stop the others (unless --fail-fast)
+      setLogContext({ profile: config.profile });
+      logger.info(`\n=== Profile: ${config.profile} ===\n`);
+      try {
+        await runMode(config, argv);
+        succeeded++;
+      } catch (error) {
+        failed.push(config.profile);
+        exitCodes.add(getExitCode(error));
+        logger.error(`Error (profile ${config.profile}): ${error instanceof Error ? error.message : error}`);
+        if (argv.failFast) {
+          break;
+        }
+      }
+    }
+    setLogContext({});
+
+    if (failed.length > 0) {
+      // Profiles failing for different reasons only share that they failed
+      const exitCode =
+        succeeded > 0 ? ExitCode.PartialFailure : exitCodes.size === 1 ? [...exitCodes][0] : ExitCode.Failure;
+      const skipped = configs.length - succeeded - failed.length;
+      throw new ExitError(
+        `${failed.length} of ${configs.length} profiles failed: ${failed.join(', ')}` +
+          (skipped > 0 ? ` (${skipped} not run because of --fail-fast)` : ''),
+        exitCode
+      );
     }
   } catch (error) {
     if (error instanceof Error) {
-      console.error(`Error: ${error.message}`);
+      logger.error(`Error: ${error.message}`);
     } else {
-      console.error('An unexpected error occurred:', error);
+      logger.error(`An unexpected error occurred: ${error}`);
+    }
+    process.exit(getExitCode(error));
+  }
+}
+
+/**
+ * Read settings or command line options, reporting any problem as a configuration error
+ */
+function readOptions<T>(read: () => T): T {
+  try {
+    return read();
+  } catch (error) {
+    if (error instanceof ExitError) {
+      throw error;
     }
-    process.exit(1);
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Parse the target dates from the date argument or --from/--to
+ */
+function readTargetDates(argv: Args, config: Config): Date[] {
+  return readOptions(() =>
+    parseTargetDates(
+      argv.date as string | undefined,
+      argv.from as string | undefined,
+      argv.to as string | undefined,
+      config.timeZone
+    )
+  );
+}
+
+/**
+ * Apply the command line overrides to a configuration and run the selected mode
+ */
+async function runMode(config: Config, argv: Args): Promise<void> {
+  readOptions(() => applyOverrides(config, argv));
+
+  if (argv.init) {
+    // Run init mode
+    await runInitMode(config);
+  } else if (argv.purge) {
+    // Run purge mode
+    // Date arguments narrow a purge instead of choosing days to create
+    const dateRange = readOptions(() =>
+      parseDateRange(
+        argv.date as string | undefined,
+        argv.from as string | undefined,
+        argv.to as string | undefined,
+        config.timeZone
+      )
+    );
+    await runPurgeMode(config, argv.confirm as boolean, {
+      dryRun: argv.dryRun as boolean,
+      format: argv.format as PlanFormat,
+      failFast: argv.failFast as boolean,
+      filters: {
+        dateRange: dateRange || undefined,
+        template: argv.template as string | undefined,
+        runId: argv.runId as string | undefined,
+      },
+    });
+  } else if (argv.validate) {
+    // Run validate mode
+    await runValidateMode(config);
+  } else if (argv.restore) {
+    // Run restore mode
+    await runRestoreMode(config);
+  } else if (argv.push) {
+    // Run push mode
+    await runPushMode(config, argv.confirm as boolean, {
+      force: argv.force as boolean,
+    });
+  } else if (argv.exportIcs) {
+    // Run export mode
+    const targetDates = readTargetDates(argv, config);
+    await runExportIcsMode(config, targetDates, {
+      file: argv.exportIcs,
+      source: argv.source as IcsSource,
+      onConflict: argv.onConflict as ConflictPolicy,
+      skipValidation: argv.skipValidation as boolean,
+    });
+  } else if (argv.reconcile) {
+    // Run reconcile mode
+    const targetDates = readTargetDates(argv, config);
+    await runReconcileMode(config, targetDates, {
+      format: argv.format as ReportFormat,
+      skipValidation: argv.skipValidation as boolean,
+    });
+  } else if (argv.importIcs) {
+    // Run import mode
+    await runImportIcsMode(config, argv.importIcs);
+  } else if (argv.migrateOffsets) {
+    // Run migrate mode
+    await runMigrateMode(config, argv.dryRun as boolean);
+  } else {
+    // Run scheduled mode
+    const targetDates = readTargetDates(argv, config);
+    await runScheduledMode(config, targetDates, getScheduledOptions(argv));
+  }
+}
+
+/**
+ * Get the scheduled mode options from the command line
+ */
+function getScheduledOptions(argv: Args): ScheduledModeOptions {
+  return {
+    onExisting: argv.onExisting as ExistingBlockPolicy,
+    onConflict: argv.onConflict as ConflictPolicy,
+    skipValidation: argv.skipValidation as boolean,
+    dryRun: argv.dryRun as boolean,
+    format: argv.format as PlanFormat,
+    failFast: argv.failFast as boolean,
+    rollback: argv.rollback as boolean,
+  };
+}
+
+/**
+ * Apply the command line overrides to a configuration
+ */
+function applyOverrides(config: Config, argv: Args): void {
+  if (argv.timeZone) {
+    config.timeZone = resolveTimeZone(argv.timeZone as string);
+  }
+  if (argv.concurrency !== undefined) {
+    if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+      throw new ConfigError(`--concurrency must be a positive whole number, got ${argv.concurrency}`);
+    }
+    config.concurrency = argv.concurrency;
+  }
+  if (argv.templates) {
+    config.localTemplatesFilePath = path.resolve(argv.templates);
+  }
+  if (argv.rules) {
+    config.rulesFilePath = path.resolve(argv.rules);
+  }
+  if (argv.format === 'csv' && !argv.reconcile) {
+    throw new ConfigError('--format csv is only supported by --reconcile');
+  }
+  if (argv.port !== undefined) {
+    if (!Number.isInteger(argv.port) || argv.port < 0) {
+      throw new ConfigError(`--port must be a non-negative whole number, got ${argv.port}`);
+    }
+    config.daemonPort = argv.port;
+  }
+  if (argv.report) {
+    config.reportFilePath = withProfileSuffix(path.resolve(argv.report), config.profile);
+  }
+  if (argv.var) {
+    config.templateVars = {
+      ...config.templateVars,
+      ...parseVariables(argv.var.map(String), '--var'),
+    };
   }
 }
 
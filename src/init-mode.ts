@@ -1,39 +1,76 @@
 import fs from 'fs/promises';
 import yaml from 'js-yaml';
 import { NotionClientWrapper } from './notion-client';
-import { Config, SavedSchema, SavedTemplates, TemplateTimeBlock } from './types';
-import { PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { Config, DayType, SavedSchema, SavedTemplates, TemplateTimeBlock } from './types';
+import { DatabaseObjectResponse, PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { parseRecurrence } from './recurrence';
+import { parseDayTypes } from './holidays';
+import { countBlocks, fetchPageContent } from './page-content';
+import { logger } from './logger';
 
 /**
  * Initialize mode: Save database schema and templates
+ * Without a templates database, only the time blocks database schema is saved,
+ * for converting the hand-written local templates file
  */
 export async function runInitMode(config: Config): Promise<void> {
-  console.log('Running init mode...');
-  console.log(`Templates Database ID: ${config.templatesDatabase}`);
+  logger.info('Running init mode...');
 
   const client = new NotionClientWrapper(config);
 
-  // Step 1: Fetch and save database schema from templates database
-  console.log('\nFetching templates database schema...');
-  const schema = await client.getDatabaseSchema(config.templatesDatabase);
-  const savedSchema: SavedSchema = {
-    database: schema,
-    savedAt: new Date().toISOString(),
-  };
+  if (!config.templatesDatabase) {
+    logger.info(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+    logger.info('No templates database configured; templates are read from a local file');
 
-  await fs.writeFile(
-    config.schemaFilePath,
-    JSON.stringify(savedSchema, null, 2),
-    'utf-8'
-  );
-  console.log(`✓ Schema saved to: ${config.schemaFilePath}`);
+    logger.info('\nFetching time blocks database schema...');
+    await saveSchema(config, await client.getDatabaseSchema(config.timeBlocksDatabase));
+
+    logger.info('\n✓ Init mode completed successfully!');
+    return;
+  }
+
+  logger.info(`Templates Database ID: ${config.templatesDatabase}`);
+
+  // Step 1: Fetch and save database schema from templates database
+  logger.info('\nFetching templates database schema...');
+  await saveSchema(config, await client.getDatabaseSchema(config.templatesDatabase));
 
   // Step 2: Fetch and save all pages from templates database
-  console.log('\nFetching template entries from templates database...');
+  logger.info('\nFetching template entries from templates database...');
   const pages = await client.getAllPages(config.templatesDatabase);
-  console.log(`Found ${pages.length} template entries`);
+  logger.info(`Found ${pages.length} template entries`);
 
-  const templates: TemplateTimeBlock[] = pages.map((page) => convertPageToTemplate(page));
+  const templates: TemplateTimeBlock[] = pages.map((page) =>
+    convertPageToTemplate(page, config)
+  );
+
+  // Step 3: Fetch the body of each template page so it can be copied
+  logger.info('\nFetching template page content...');
+  await client.forEachConcurrently(templates, async (template) => {
+    const content = await fetchPageContent(client, template.id!, template.title);
+    if (content.length > 0) {
+      template.content = content;
+    }
+  });
+
+  const withContent = templates.filter((template) => template.content).length;
+  const blockCount = templates.reduce((total, template) => total + countBlocks(template.content), 0);
+  logger.info(`✓ ${blockCount} content blocks fetched from ${withContent} templates`);
+
+  const recurring = templates.filter((template) => template.recurrence).length;
+  if (recurring > 0) {
+    logger.info(`${recurring} templates have a recurrence rule ("${config.recurrenceProperty}")`);
+  }
+
+  const typed = templates.filter((template) => template.dayTypes).length;
+  if (typed > 0) {
+    logger.info(`${typed} templates have day types ("${config.dayTypeProperty}")`);
+  }
+
+  const kept = await keepOffsets(config, templates);
+  if (kept > 0) {
+    logger.info(`Kept the offsets of ${kept} templates`);
+  }
 
   const savedTemplates: SavedTemplates = {
     templates,
@@ -45,15 +82,62 @@ export async function runInitMode(config: Config): Promise<void> {
     yaml.dump(savedTemplates, { lineWidth: -1, noRefs: true }),
     'utf-8'
   );
-  console.log(`✓ Templates saved to: ${config.templatesFilePath}`);
+  logger.info(`✓ Templates saved to: ${config.templatesFilePath}`);
 
-  console.log('\n✓ Init mode completed successfully!');
+  logger.info('\n✓ Init mode completed successfully!');
+}
+
+/**
+ * Copy offsets from the templates saved before, which only exist in the templates file
+ * Returns the number of templates that got one
+ */
+async function keepOffsets(config: Config, templates: TemplateTimeBlock[]): Promise<number> {
+  let previous: SavedTemplates;
+  try {
+    previous = yaml.load(await fs.readFile(config.templatesFilePath, 'utf-8')) as SavedTemplates;
+  } catch {
+    // No templates saved yet
+    return 0;
+  }
+
+  const offsets = new Map(
+    (previous?.templates || [])
+      .filter((template) => template.id && template.offset)
+      .map((template) => [template.id, template.offset])
+  );
+
+  let kept = 0;
+  for (const template of templates) {
+    const offset = offsets.get(template.id);
+    if (offset) {
+      template.offset = offset;
+      kept++;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Save a database schema to the schema file
+ */
+async function saveSchema(config: Config, schema: DatabaseObjectResponse): Promise<void> {
+  const savedSchema: SavedSchema = {
+    database: schema,
+    savedAt: new Date().toISOString(),
+  };
+
+  await fs.writeFile(
+    config.schemaFilePath,
+    JSON.stringify(savedSchema, null, 2),
+    'utf-8'
+  );
+  logger.info(`✓ Schema saved to: ${config.schemaFilePath}`);
 }
 
 /**
  * Convert a Notion page to a template format
  */
-function convertPageToTemplate(page: PageObjectResponse): TemplateTimeBlock {
+function convertPageToTemplate(page: PageObjectResponse, config: Config): TemplateTimeBlock {
   // Extract title if available (usually from a title property)
   let title = 'Untitled';
 
@@ -64,8 +148,43 @@ function convertPageToTemplate(page: PageObjectResponse): TemplateTimeBlock {
     }
   }
 
+  const recurrence = readRecurrence(page.properties[config.recurrenceProperty]);
+  let dayTypes: DayType[];
+
+  // Fail early so a typo doesn't surface only when scheduled mode runs
+  try {
+    parseRecurrence(recurrence);
+    dayTypes = parseDayTypes(readRecurrence(page.properties[config.dayTypeProperty]));
+  } catch (error) {
+    throw new Error(`Template "${title}": ${(error as Error).message}`);
+  }
+
   return {
+    id: page.id,
     title,
+    ...(recurrence ? { recurrence } : {}),
+    ...(dayTypes.length > 0 ? { dayTypes } : {}),
     properties: page.properties,
   };
 }
+
+/**
+ * Read a recurrence rule (or a list of day types) from a select, multi-select or text property
+ * Multi-select values are joined into a comma-separated list (e.g. "Mon, Wed, Fri")
+ */
+export function readRecurrence(prop: PageObjectResponse['properties'][string] | undefined): string {
+  if (!prop) {
+    return '';
+  }
+
+  const rule =
+    prop.type === 'select'
+      ? prop.select?.name
+      : prop.type === 'multi_select'
+        ? prop.multi_select.map((option) => option.name).join(', ')
+        : prop.type === 'rich_text'
+          ? prop.rich_text.map((t) => t.plain_text).join('')
+          : '';
+
+  return (rule || '').trim();
+}
@@ -0,0 +1,525 @@
+import fs from 'fs/promises';
+import yaml from 'js-yaml';
+import {
+  Config,
+  DayType,
+  FlexibleSpec,
+  LocalTemplate,
+  LocalTemplatesFile,
+  SavedSchema,
+  TemplateOffset,
+  TemplateTimeBlock,
+} from './types';
+import { addDays, formatDate, parseTargetDate, resolveTimeZone } from './date-utils';
+import { parseRecurrence } from './recurrence';
+import { parseDayTypes } from './holidays';
+import { OffsetSpan, resolveOffsets } from './offsets';
+import { ConfigError, ValidationError } from './errors';
+
+// Date local templates are placed on when the file doesn't set an anchor (a Monday)
+const DEFAULT_ANCHOR = '2024-01-01';
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const DURATION_PATTERN = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/i;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Load a hand-written templates file and convert it into templates with Notion payloads
+ * Property values are converted using the property types in the saved schema.
+ * All problems are reported together so a file can be fixed in one go
+ */
+export async function loadLocalTemplates(
+  filePath: string,
+  schema: SavedSchema,
+  config: Config
+): Promise<TemplateTimeBlock[]> {
+  let file: LocalTemplatesFile;
+  try {
+    file = yaml.load(await fs.readFile(filePath, 'utf-8')) as LocalTemplatesFile;
+  } catch (error) {
+    throw new ConfigError(`Could not read templates from ${filePath}: ${(error as Error).message}`);
+  }
+
+  const errors: string[] = [];
+  const templates = convertLocalTemplates(file, schema, config, errors);
+
+  if (errors.length > 0) {
+    throw new ValidationError(
+      `${filePath} has ${errors.length} errors:\n` + errors.map((error) => `  ✗ ${error}`).join('\n')
+    );
+  }
+
+  return templates;
+}
+
+/**
+ * Convert the templates of a local templates file, collecting problems in errors
+ */
+export function convertLocalTemplates(
+  file: LocalTemplatesFile,
+  schema: SavedSchema,
+  config: Config,
+  errors: string[]
+): TemplateTimeBlock[] {
+  if (!file || typeof file !== 'object' || !Array.isArray(file.templates)) {
+    errors.push('The file must have a "templates" list');
+    return [];
+  }
+
+  const properties = schema.database.properties as Record<string, any>;
+  const titleProperty = Object.keys(properties).find((name) => properties[name].type === 'title');
+  const dateProperty = findDateProperty(properties, config.datePropertyName);
+
+  if (!titleProperty) {
+    errors.push('The saved schema has no title property');
+  }
+  if (!dateProperty) {
+    errors.push(
+      'The saved schema needs exactly one date property for the template times ' +
+        '(set NOTION_DATE_PROPERTY to choose one)'
+    );
+  }
+
+  let timeZone: string | null = null;
+  if (file.timeZone !== undefined) {
+    try {
+      timeZone = resolveTimeZone(String(file.timeZone));
+    } catch (error) {
+      errors.push(`timeZone: ${(error as Error).message}`);
+    }
+  }
+
+  const anchor = parseAnchor(file.anchor ?? DEFAULT_ANCHOR, errors) ?? parseTargetDate(DEFAULT_ANCHOR);
+
+  if (!titleProperty || !dateProperty) {
+    return [];
+  }
+
+  const templates: TemplateTimeBlock[] = [];
+
+  file.templates.forEach((local, index) => {
+    const label = `templates[${index}]${local?.title ? ` "${local.title}"` : ''}`;
+    const templateErrors: string[] = [];
+
+    const template = convertLocalTemplate(local, properties, {
+      titleProperty,
+      dateProperty,
+      timeZone,
+      anchor,
+      errors: templateErrors,
+    });
+
+    errors.push(...templateErrors.map((error) => `${label}: ${error}`));
+    if (template && templateErrors.length === 0) {
+      templates.push(template);
+    }
+  });
+
+  if (errors.length === 0) {
+    placeFollowingTemplates(templates, dateProperty, timeZone, errors);
+  }
+
+  return templates;
+}
+
+/**
+ * Parse an anchor date, collecting a problem in errors
+ * YAML reads an unquoted 2024-01-01 as a Date at UTC midnight
+ */
+function parseAnchor(value: unknown, errors: string[]): Date | null {
+  const text = value instanceof Date ? formatDate(value) : String(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(text).getTime())) {
+    errors.push(`anchor: Expected a date like 2024-01-01, got "${text}"`);
+    return null;
+  }
+  return parseTargetDate(text);
+}
+
+/**
+ * Set the times of templates that follow another template, now that the times
+ * of the templates they follow are known
+ */
+function placeFollowingTemplates(
+  templates: TemplateTimeBlock[],
+  dateProperty: string,
+  timeZone: string | null,
+  errors: string[]
+): void {
+  if (!templates.some((template) => template.offset?.after !== undefined)) {
+    return;
+  }
+
+  let spans: Map<TemplateTimeBlock, OffsetSpan>;
+  try {
+    spans = resolveOffsets(templates);
+  } catch (error) {
+    errors.push((error as Error).message);
+    return;
+  }
+
+  for (const template of templates) {
+    const span = spans.get(template);
+    if (span && template.offset?.after !== undefined) {
+      // The template's own anchor date, set when it was converted
+      const anchor = parseTargetDate(template.properties[dateProperty].date.start.substring(0, 10));
+      template.properties[dateProperty] = {
+        type: 'date',
+        date: {
+          start: formatLocalDateTime(anchor, span.start),
+          end: formatLocalDateTime(anchor, span.end),
+          time_zone: timeZone,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Convert a single local template, collecting problems in context.errors
+ */
+function convertLocalTemplate(
+  local: LocalTemplate,
+  schemaProperties: Record<string, any>,
+  context: {
+    titleProperty: string;
+    dateProperty: string;
+    timeZone: string | null;
+    anchor: Date;
+    errors: string[];
+  }
+): TemplateTimeBlock | null {
+  const { errors } = context;
+
+  if (!local || typeof local !== 'object') {
+    errors.push('Expected a template with title and start (or window)');
+    return null;
+  }
+
+  if (typeof local.title !== 'string' || !local.title.trim()) {
+    errors.push('title is required');
+  }
+
+  // An all-day template has a date (or several days) but no times
+  if (local.allDay !== undefined && typeof local.allDay !== 'boolean') {
+    errors.push(`allDay must be true or false, got ${JSON.stringify(local.allDay)}`);
+  }
+  const allDay = local.allDay === true;
+  if (allDay) {
+    const timed = (['start', 'end', 'duration', 'window', 'priority', 'after', 'gap'] as const).filter(
+      (field) => local[field] !== undefined
+    );
+    if (timed.length > 0) {
+      errors.push(`An all-day template takes day and days instead of ${timed.join(', ')}`);
+    }
+    if (local.days !== undefined && (!Number.isInteger(local.days) || local.days < 1)) {
+      errors.push(`days must be a positive whole number, got ${JSON.stringify(local.days)}`);
+    }
+  } else if (local.days !== undefined) {
+    errors.push('days only applies to all-day templates (with allDay: true)');
+  }
+
+  // A template with a window is flexible: its block is placed in free time inside the window
+  let window: FlexibleSpec['window'] | null = null;
+  let start: number | null = null;
+
+  // A template that follows another gets its start once that one's times are known
+  let gap: number | null = null;
+
+  if (local.after !== undefined) {
+    if (typeof local.after !== 'string' || !local.after.trim()) {
+      errors.push(`after must be the title or id of a template, got ${JSON.stringify(local.after)}`);
+    }
+    if (local.start !== undefined || local.end !== undefined || local.window !== undefined || local.day !== undefined) {
+      errors.push('A template that follows another (with after) takes a duration and gap instead of start, end, window and day');
+    }
+    gap = local.gap === undefined ? 0 : parseGap(local.gap);
+    if (gap === null) {
+      errors.push(`gap must look like "30m", "1h" or a number of minutes, got ${JSON.stringify(local.gap)}`);
+    }
+  } else if (local.gap !== undefined) {
+    errors.push('gap only applies to templates that follow another (with after)');
+  }
+
+  if (local.after !== undefined) {
+    // The duration below is measured from a start of 0
+    start = 0;
+  } else if (local.window !== undefined) {
+    window = parseWindow(local.window);
+    if (!window) {
+      errors.push(
+        `window must have start and end times like { start: "09:00", end: "17:00" }, got ${JSON.stringify(local.window)}`
+      );
+    }
+    if (local.start !== undefined || local.end !== undefined) {
+      errors.push('A flexible template (with a window) takes a duration instead of start and end');
+    }
+    start = window?.start ?? null;
+  } else if (!allDay) {
+    start = parseTime(local.start);
+    if (start === null) {
+      errors.push(`start must be a time like "09:00", got ${JSON.stringify(local.start)}`);
+    }
+  }
+
+  if (local.priority !== undefined) {
+    if (!window) {
+      errors.push('priority only applies to flexible templates (with a window)');
+    } else if (typeof local.priority !== 'number' || !Number.isFinite(local.priority)) {
+      errors.push(`priority must be a number, got ${JSON.stringify(local.priority)}`);
+    }
+  }
+
+  let end: number | null = null;
+  if (local.end !== undefined && local.duration !== undefined) {
+    errors.push('Give either end or duration, not both');
+  } else if (local.end !== undefined) {
+    end = parseTime(local.end);
+    if (end === null) {
+      errors.push(`end must be a time like "17:30", got ${JSON.stringify(local.end)}`);
+    } else if (start !== null && end <= start) {
+      // An end before the start is on the following day
+      end += MINUTES_PER_DAY;
+    }
+  } else if (local.duration !== undefined) {
+    const duration = parseDuration(local.duration);
+    if (duration === null) {
+      errors.push(`duration must look like "1h30m", "45m" or a number of minutes, got ${JSON.stringify(local.duration)}`);
+    } else if (window && duration > window.end - window.start) {
+      errors.push(`duration ${local.duration} doesn't fit in the window`);
+    } else if (start !== null) {
+      end = start + duration;
+    }
+  } else if (!allDay) {
+    errors.push(window ? 'duration is required for a flexible template' : 'end or duration is required');
+  }
+
+  if (local.day !== undefined && (!Number.isInteger(local.day) || local.day < 0)) {
+    errors.push(`day must be a whole number of days after the anchor date, got ${JSON.stringify(local.day)}`);
+  }
+
+  const anchor = local.anchor !== undefined ? parseAnchor(local.anchor, errors) : null;
+
+  if (local.recurrence !== undefined) {
+    try {
+      parseRecurrence(String(local.recurrence));
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  let dayTypes: DayType[] = [];
+  try {
+    dayTypes = parseDayTypes(local.dayTypes);
+  } catch (error) {
+    errors.push((error as Error).message);
+  }
+
+  const properties: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(local.properties || {})) {
+    if (name === context.titleProperty || name === context.dateProperty) {
+      errors.push(`"${name}" is set from title/start/end and can't be given in properties`);
+      continue;
+    }
+
+    const prop = schemaProperties[name];
+    if (!prop) {
+      errors.push(`Unknown property "${name}" (not in the saved schema)`);
+      continue;
+    }
+
+    try {
+      properties[name] = { type: prop.type, ...toPropertyValue(prop.type, value) };
+    } catch (error) {
+      errors.push(`${name}: ${(error as Error).message}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return null;
+  }
+
+  const day = addDays(anchor ?? context.anchor, local.day || 0);
+  properties[context.titleProperty] = { type: 'title', ...toPropertyValue('title', local.title) };
+
+  const template: TemplateTimeBlock = {
+    ...(local.id ? { id: String(local.id) } : {}),
+    title: local.title,
+    ...(local.recurrence ? { recurrence: String(local.recurrence) } : {}),
+    ...(dayTypes.length > 0 ? { dayTypes } : {}),
+    properties,
+  };
+
+  if (allDay) {
+    const days = local.days ?? 1;
+    properties[context.dateProperty] = {
+      type: 'date',
+      date: {
+        start: formatDate(day),
+        end: days > 1 ? formatDate(addDays(day, days - 1)) : null,
+        time_zone: null,
+      },
+    };
+    return { ...template, offset: { day: local.day || 0, ...(days > 1 ? { days } : {}) } };
+  }
+
+  if (start === null || end === null) {
+    return null;
+  }
+  // Following templates get their times once every template is converted
+  properties[context.dateProperty] = {
+    type: 'date',
+    date: {
+      start: formatLocalDateTime(day, start),
+      end: formatLocalDateTime(day, end),
+      time_zone: context.timeZone,
+    },
+  };
+
+  // Templates say where their block goes (flexible ones only the day), so no other template can move it
+  const offset: TemplateOffset = window
+    ? { day: local.day || 0 }
+    : local.after !== undefined
+      ? { after: local.after, gap: gap!, duration: end - start }
+      : { day: local.day || 0, start, duration: end - start };
+
+  return {
+    ...template,
+    ...(window
+      ? {
+          flexible: {
+            duration: end - start,
+            window,
+            ...(local.priority !== undefined ? { priority: local.priority } : {}),
+          },
+        }
+      : {}),
+    offset,
+  };
+}
+
+/**
+ * Convert a plain value into the Notion value of a property type
+ * e.g. select "Work" -> { select: { name: 'Work' } }
+ */
+export function toPropertyValue(type: string, value: unknown): Record<string, any> {
+  const expectString = () => {
+    if (typeof value !== 'string') {
+      throw new Error(`Expected text for a ${type} property, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  };
+  const expectList = () => (Array.isArray(value) ? value : [value]).map(String);
+
+  switch (type) {
+    case 'title':
+    case 'rich_text': {
+      const content = value === null ? '' : String(value);
+      return { [type]: content ? [{ type: 'text', text: { content }, plain_text: content }] : [] };
+    }
+    case 'number':
+      if (value !== null && typeof value !== 'number') {
+        throw new Error(`Expected a number, got ${JSON.stringify(value)}`);
+      }
+      return { number: value };
+    case 'checkbox':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Expected true or false, got ${JSON.stringify(value)}`);
+      }
+      return { checkbox: value };
+    case 'select':
+    case 'status':
+      return { [type]: value === null ? null : { name: expectString() } };
+    case 'multi_select':
+      return { multi_select: expectList().map((name) => ({ name })) };
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return { [type]: value === null ? null : expectString() };
+    case 'relation':
+    case 'people':
+      // Pages and users can only be referred to by ID
+      return { [type]: expectList().map((id) => ({ id })) };
+    default:
+      throw new Error(`${type} properties can't be given as a plain value`);
+  }
+}
+
+/**
+ * Pick the date property that holds the template times
+ */
+function findDateProperty(
+  properties: Record<string, any>,
+  preferred: string | undefined
+): string | null {
+  if (preferred && properties[preferred]?.type === 'date') {
+    return preferred;
+  }
+
+  const dateProperties = Object.keys(properties).filter((name) => properties[name].type === 'date');
+  return dateProperties.length === 1 ? dateProperties[0] : null;
+}
+
+/**
+ * Parse a time like "9:00" or "17:30" into minutes after midnight
+ */
+function parseTime(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.trim().match(TIME_PATTERN) : null;
+  return match ? +match[1] * 60 + +match[2] : null;
+}
+
+/**
+ * Parse the window of a flexible template into minutes after midnight
+ * An end at or before the start is on the following day
+ */
+function parseWindow(value: unknown): FlexibleSpec['window'] | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const start = parseTime((value as Record<string, unknown>).start);
+  const end = parseTime((value as Record<string, unknown>).end);
+  if (start === null || end === null) {
+    return null;
+  }
+
+  return { start, end: end <= start ? end + MINUTES_PER_DAY : end };
+}
+
+/**
+ * Parse a duration like "1h30m", "45m", "2h" or a number of minutes
+ */
+function parseDuration(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : null;
+  }
+
+  const match = typeof value === 'string' ? value.trim().match(DURATION_PATTERN) : null;
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const minutes = +(match[1] || 0) * 60 + +(match[2] || 0);
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Parse the gap after the template a template follows; unlike a duration, it may be 0
+ */
+function parseGap(value: unknown): number | null {
+  return value === 0 || value === '0' ? 0 : parseDuration(value);
+}
+
+/**
+ * Format a day and a number of minutes after its midnight as a naive datetime
+ */
+function formatLocalDateTime(day: Date, minutes: number): string {
+  const date = formatDate(addDays(day, Math.floor(minutes / MINUTES_PER_DAY)));
+  const time = minutes % MINUTES_PER_DAY;
+  const hours = String(Math.floor(time / 60)).padStart(2, '0');
+  const mins = String(time % 60).padStart(2, '0');
+
+  return `${date}T${hours}:${mins}:00.000`;
+}
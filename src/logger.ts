@@ -0,0 +1,84 @@
+/**
+ * Severity of a log line; lines below the configured level are dropped
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Extra data attached to a log line, only written in JSON mode
+ * e.g. { event: 'block.created', title: 'Standup', pageId: '...' }
+ */
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level: LogLevel;  // Lowest level written: debug with --verbose, warn with --quiet
+  json: boolean;  // Write one JSON object per line instead of text
+  stderr: boolean;  // Write every line to stderr, keeping stdout for a plan or report
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Markers that start text lines; the level says the same in JSON mode
+const MARKER_PATTERN = /^\s*(?:[✓✗⚠+~-]\s+)?/;
+
+let options: LoggerOptions = { level: 'info', json: false, stderr: false };
+let context: LogFields = {};
+
+/**
+ * Set the level and output format of the logger
+ */
+export function configureLogger(overrides: Partial<LoggerOptions>): void {
+  options = { ...options, ...overrides };
+}
+
+/**
+ * Set fields added to every JSON log line, such as the profile being run
+ */
+export function setLogContext(fields: LogFields): void {
+  context = fields;
+}
+
+/**
+ * Log lines for people reading a terminal, or JSON events for monitoring
+ * Text goes to stdout, with warnings and errors on stderr, as console.* would write it.
+ * JSON lines all go to stdout so they can be read as one stream.
+ * With options.stderr everything goes to stderr instead
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+/**
+ * Write a log line if its level is enabled
+ */
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  if (LEVELS.indexOf(level) < LEVELS.indexOf(options.level)) {
+    return;
+  }
+
+  if (!options.json) {
+    if (level === 'warn') {
+      console.warn(message);
+    } else if (level === 'error' || options.stderr) {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+    return;
+  }
+
+  const text = message.trim().replace(MARKER_PATTERN, '');
+  if (!text && !fields) {
+    // Blank lines only space out text output
+    return;
+  }
+
+  const line = JSON.stringify({ time: new Date().toISOString(), level, message: text, ...context, ...fields });
+  if (options.stderr) {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import yaml from 'js-yaml';
+import { Config, SavedTemplates } from './types';
+import { formatDate } from './date-utils';
+import { describeOffset, findReferenceDate, resolveOffsets, toExplicitOffset } from './offsets';
+import { ConfigError } from './errors';
+import { logger } from './logger';
+
+/**
+ * Migrate mode: Give the saved templates explicit offsets
+ * Templates without an offset are placed as many days after the target date as
+ * they are after the reference date, the earliest date across all templates. Each gets the
+ * offset that places its block where it goes now, so adding or editing a template
+ * can no longer move the others. The old file is kept as a .bak copy
+ */
+export async function runMigrateMode(config: Config, dryRun: boolean): Promise<void> {
+  logger.info('Running migrate mode...');
+
+  if (config.localTemplatesFilePath) {
+    logger.info(
+      `✓ Nothing to migrate: templates in ${config.localTemplatesFilePath} already give their day and times`
+    );
+    return;
+  }
+
+  let original: string;
+  let saved: SavedTemplates;
+  try {
+    original = await fs.readFile(config.templatesFilePath, 'utf-8');
+    saved = yaml.load(original) as SavedTemplates;
+  } catch (error) {
+    throw new ConfigError(
+      `Could not read ${config.templatesFilePath}: ${(error as Error).message}. Run with --init first`
+    );
+  }
+
+  // The reference date is found across all templates, as create mode finds it for
+  // the templates left without an offset, so their days don't change
+  const templates = saved?.templates || [];
+  const legacy = templates.filter((template) => !template.offset);
+  const referenceDate = findReferenceDate(templates, config.timeZone);
+  if (referenceDate && legacy.length > 0) {
+    logger.info(`Reference date: ${formatDate(referenceDate)}`);
+  }
+
+  let migrated = 0;
+  for (const template of legacy) {
+    const explicit = toExplicitOffset(template, referenceDate, config.timeZone);
+    if (!explicit) {
+      logger.warn(`  ⚠ ${template.title}: No end time; left relative to the reference date`);
+      continue;
+    }
+
+    // Flexible templates are placed in their window, so they only need the day
+    const offset = template.flexible ? { day: explicit.day } : explicit;
+    template.offset = offset;
+    migrated++;
+    logger.info(`  ✓ ${template.title}: ${describeOffset(offset, !!template.flexible)}`);
+  }
+
+  if (migrated === 0) {
+    logger.info('✓ Nothing to migrate: every template has an offset');
+    return;
+  }
+
+  // Offsets written by hand before the migration are checked along with the new ones
+  resolveOffsets(templates);
+
+  if (dryRun) {
+    logger.info(`\n✓ ${migrated} templates would get an offset (dry run, nothing written)`);
+    return;
+  }
+
+  const backupPath = `${config.templatesFilePath}.bak`;
+  await fs.writeFile(backupPath, original, 'utf-8');
+  await fs.writeFile(
+    config.templatesFilePath,
+    yaml.dump({ ...saved, templates }, { lineWidth: -1, noRefs: true }),
+    'utf-8'
+  );
+
+  logger.info(`\n✓ ${migrated} templates migrated in: ${config.templatesFilePath}`);
+  logger.info(`  Previous version saved to: ${backupPath}`);
+}
@@ -0,0 +1,64 @@
+import { APIErrorCode, APIResponseError, RequestTimeoutError } from '@notionhq/client';
+import { NotionClientWrapper } from './notion-client';
+import { Config } from './types';
+
+jest.mock('./rate-limiter', () => ({
+  ...jest.requireActual('./rate-limiter'),
+  delay: () => Promise.resolve(),
+}));
+jest.mock('./logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() } }));
+
+const config = { notionApiKey: 'secret', requestsPerSecond: 1000, maxRetries: 3, concurrency: 1 } as Config;
+
+const rateLimited = () =>
+  new APIResponseError({
+    code: APIErrorCode.RateLimited,
+    status: 429,
+    message: 'Rate limited',
+    headers: {},
+    rawBodyText: '',
+  });
+
+// Swap the create call of the underlying Notion client for a mock
+function mockCreate(...outcomes: (Error | { id: string })[]) {
+  const wrapper = new NotionClientWrapper(config);
+  const create = jest.fn();
+  for (const outcome of outcomes) {
+    if (outcome instanceof Error) {
+      create.mockRejectedValueOnce(outcome);
+    } else {
+      create.mockResolvedValueOnce(outcome);
+    }
+  }
+  (wrapper as any).client.pages.create = create;
+  return { wrapper, create };
+}
+
+describe('createPage', () => {
+  it('retries when rate limited', async () => {
+    const { wrapper, create } = mockCreate(rateLimited(), { id: 'page' });
+    await expect(wrapper.createPage('db', {})).resolves.toEqual({ id: 'page' });
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't send a create that timed out again", async () => {
+    const { wrapper, create } = mockCreate(new RequestTimeoutError(), { id: 'duplicate' });
+    await expect(wrapper.createPage('db', {})).rejects.toBeInstanceOf(RequestTimeoutError);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the page a timed-out create made instead of creating it again', async () => {
+    const { wrapper, create } = mockCreate(new RequestTimeoutError(), { id: 'duplicate' });
+    const findCreated = jest.fn().mockResolvedValue({ id: 'page' });
+    await expect(wrapper.createPage('db', {}, findCreated)).resolves.toEqual({ id: 'page' });
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the create again when the timed-out one made nothing', async () => {
+    const { wrapper, create } = mockCreate(new RequestTimeoutError(), { id: 'page' });
+    const findCreated = jest.fn().mockResolvedValue(undefined);
+    await expect(wrapper.createPage('db', {}, findCreated)).resolves.toEqual({ id: 'page' });
+    expect(findCreated).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,51 +1,78 @@
-import { Client } from '@notionhq/client';
+import { APIErrorCode, Client, isNotionClientError } from '@notionhq/client';
 import {
+  AppendBlockChildrenParameters,
+  BlockObjectResponse,
   DatabaseObjectResponse,
+  ListBlockChildrenResponse,
   PageObjectResponse,
+  QueryDatabaseParameters,
   QueryDatabaseResponse,
 } from '@notionhq/client/build/src/api-endpoints';
 import { Config } from './types';
+import { delay, mapWithConcurrency, TokenBucket } from './rate-limiter';
+import { logger } from './logger';
 
+// Backoff before retry n is a random time up to min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2^n)
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_CAP_MS = 30000;
+
+/**
+ * Wrapper around the Notion client
+ * All requests go through a shared token bucket rate limiter and are retried
+ * with jittered exponential backoff on rate limiting (429, honoring Retry-After),
+ * transient server errors (5xx) and timeouts. Requests that create something are
+ * only retried on rate limiting, which Notion rejects before doing anything, since
+ * a create that timed out may have gone through
+ */
 export class NotionClientWrapper {
   private client: Client;
+  private limiter: TokenBucket;
+  private maxRetries: number;
+  private concurrency: number;
 
   constructor(config: Config) {
     this.client = new Client({ auth: config.notionApiKey });
+    this.limiter = new TokenBucket(config.requestsPerSecond, config.requestsPerSecond);
+    this.maxRetries = config.maxRetries;
+    this.concurrency = config.concurrency;
   }
 
   /**
    * Retrieve the database schema
    */
   async getDatabaseSchema(databaseId: string): Promise<DatabaseObjectResponse> {
-    const response = await this.client.databases.retrieve({
-      database_id: databaseId,
-    });
+    const response = await this.request(() =>
+      this.client.databases.retrieve({
+        database_id: databaseId,
+      })
+    );
 
     return response as DatabaseObjectResponse;
   }
 
   /**
-   * Query all pages from the database
+   * Query all pages from the database, optionally narrowed by a Notion filter
    */
-  async getAllPages(databaseId: string): Promise<PageObjectResponse[]> {
+  async getAllPages(
+    databaseId: string,
+    filter?: QueryDatabaseParameters['filter']
+  ): Promise<PageObjectResponse[]> {
     const pages: PageObjectResponse[] = [];
     let hasMore = true;
     let startCursor: string | undefined = undefined;
 
     while (hasMore) {
-      const response: QueryDatabaseResponse = await this.client.databases.query({
-        database_id: databaseId,
-        start_cursor: startCursor,
-      });
+      const response: QueryDatabaseResponse = await this.request(() =>
+        this.client.databases.query({
+          database_id: databaseId,
+          start_cursor: startCursor,
+          filter,
+        })
+      );
 
       pages.push(...(response.results as PageObjectResponse[]));
       hasMore = response.has_more;
       startCursor = response.next_cursor || undefined;
-
-      // Add small delay to respect rate limits
-      if (hasMore) {
-        await this.delay(350); // ~3 requests per second
-      }
     }
 
     return pages;
@@ -53,12 +80,36 @@ export class NotionClientWrapper {
 
   /**
    * Create a new page in the database
+   * With findCreated, other transient failures are retried too: the page is looked
+   * up first and only sent again when it wasn't created after all
+   */
+  async createPage(
+    databaseId: string,
+    properties: Record<string, any>,
+    findCreated?: () => Promise<PageObjectResponse | undefined>
+  ): Promise<PageObjectResponse> {
+    const response = await this.request(
+      () =>
+        this.client.pages.create({
+          parent: { database_id: databaseId },
+          properties,
+        }),
+      { idempotent: false, findSent: findCreated }
+    );
+
+    return response as PageObjectResponse;
+  }
+
+  /**
+   * Update the properties of an existing page
    */
-  async createPage(databaseId: string, properties: Record<string, any>): Promise<PageObjectResponse> {
-    const response = await this.client.pages.create({
-      parent: { database_id: databaseId },
-      properties,
-    });
+  async updatePage(pageId: string, properties: Record<string, any>): Promise<PageObjectResponse> {
+    const response = await this.request(() =>
+      this.client.pages.update({
+        page_id: pageId,
+        properties,
+      })
+    );
 
     return response as PageObjectResponse;
   }
@@ -67,16 +118,182 @@ export class NotionClientWrapper {
    * Archive (delete) a page
    */
   async deletePage(pageId: string): Promise<void> {
-    await this.client.pages.update({
-      page_id: pageId,
-      archived: true,
-    });
+    await this.request(() =>
+      this.client.pages.update({
+        page_id: pageId,
+        archived: true,
+      })
+    );
+  }
+
+  /**
+   * Restore (un-archive) a page
+   */
+  async restorePage(pageId: string): Promise<void> {
+    await this.request(() =>
+      this.client.pages.update({
+        page_id: pageId,
+        archived: false,
+      })
+    );
   }
 
   /**
-   * Simple delay utility
+   * List all child blocks of a page or block (one level)
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  async getBlockChildren(blockId: string): Promise<BlockObjectResponse[]> {
+    const blocks: BlockObjectResponse[] = [];
+    let hasMore = true;
+    let startCursor: string | undefined = undefined;
+
+    while (hasMore) {
+      const response: ListBlockChildrenResponse = await this.request(() =>
+        this.client.blocks.children.list({
+          block_id: blockId,
+          start_cursor: startCursor,
+        })
+      );
+
+      blocks.push(...(response.results as BlockObjectResponse[]));
+      hasMore = response.has_more;
+      startCursor = response.next_cursor || undefined;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Append child blocks to a page or block (at most 100 per call)
+   * Returns the created blocks, in order
+   */
+  async appendBlockChildren(
+    blockId: string,
+    children: Record<string, any>[]
+  ): Promise<BlockObjectResponse[]> {
+    const response = await this.request(
+      () =>
+        this.client.blocks.children.append({
+          block_id: blockId,
+          children: children as AppendBlockChildrenParameters['children'],
+        }),
+      { idempotent: false }
+    );
+
+    return response.results as BlockObjectResponse[];
+  }
+
+  /**
+   * Run a function over items with the configured number of requests in flight
+   * The rate limiter still applies, so this overlaps latency rather than exceeding limits
+   */
+  forEachConcurrently<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    return mapWithConcurrency(items, this.concurrency, fn);
+  }
+
+  /**
+   * Send a request through the rate limiter, retrying transient failures
+   * Requests that aren't idempotent are only retried on rate limiting, unless
+   * findSent can tell whether a failed attempt went through
+   */
+  private async request<T>(
+    send: () => Promise<T>,
+    options: { idempotent?: boolean; findSent?: () => Promise<T | undefined> } = {}
+  ): Promise<T> {
+    const { idempotent = true, findSent } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.acquire();
+
+      try {
+        return await send();
+      } catch (error) {
+        const rateLimited = isRateLimited(error);
+        if (
+          attempt >= this.maxRetries ||
+          !isRetryable(error) ||
+          (!rateLimited && !idempotent && !findSent)
+        ) {
+          throw error;
+        }
+
+        const retryAfterMs = getRetryAfterMs(error);
+        if (retryAfterMs !== null) {
+          // Notion told us how long to back off; hold every request, not just this one
+          this.limiter.pause(retryAfterMs);
+        }
+
+        const backoffMs = Math.random() * Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** attempt);
+        const waitMs = Math.max(retryAfterMs ?? 0, backoffMs);
+
+        logger.warn(
+          `  ⚠ Notion request failed (${describeError(error)}), ` +
+            `retrying in ${(waitMs / 1000).toFixed(1)}s (${attempt + 1}/${this.maxRetries})`
+        );
+        await delay(waitMs);
+
+        if (!rateLimited && findSent) {
+          const sent = await findSent();
+          if (sent) {
+            logger.info('  ✓ The failed request went through after all');
+            return sent;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ */
+function isRetryable(error: unknown): boolean {
+  if (isNotionClientError(error)) {
+    if (isRateLimited(error)) {
+      return true;
+    }
+    if ('status' in error) {
+      return error.status >= 500;
+    }
+    // Request timeouts
+    return true;
+  }
+
+  // Network failures surface as plain errors with a system error code
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'].includes(code || '');
+}
+
+/**
+ * Check whether a request was rejected for rate limiting, so nothing was done
+ */
+function isRateLimited(error: unknown): boolean {
+  return (
+    isNotionClientError(error) &&
+    (error.code === APIErrorCode.RateLimited || ('status' in error && error.status === 429))
+  );
+}
+
+/**
+ * Read the Retry-After header (in seconds) of a failed request, in milliseconds
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  const headers = isNotionClientError(error) && 'headers' in error ? (error.headers as any) : null;
+  if (!headers) {
+    return null;
+  }
+
+  const value = typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after'];
+  const seconds = parseFloat(value);
+
+  return isNaN(seconds) ? null : seconds * 1000;
+}
+
+/**
+ * Describe a failed request for a retry message
+ */
+function describeError(error: unknown): string {
+  if (isNotionClientError(error)) {
+    return 'status' in error ? `${error.status} ${error.code}` : error.code;
   }
+  return (error as NodeJS.ErrnoException)?.code || String(error);
 }
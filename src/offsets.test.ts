@@ -0,0 +1,61 @@
+import { convertLocalTemplates } from './local-templates';
+import { placeOffsetSpan, resolveOffsets } from './offsets';
+import { Config, LocalTemplatesFile, SavedSchema } from './types';
+
+const ZONE = 'Europe/Berlin';
+
+const schema = {
+  database: { properties: { Name: { type: 'title' }, When: { type: 'date' } } },
+  savedAt: '2024-06-01T00:00:00Z',
+} as unknown as SavedSchema;
+const config = { timeZone: ZONE } as Config;
+
+// Convert a local templates file, failing on any problem
+const convert = (file: LocalTemplatesFile) => {
+  const errors: string[] = [];
+  const templates = convertLocalTemplates(file, schema, config, errors);
+  expect(errors).toEqual([]);
+  return templates;
+};
+
+describe('resolveOffsets', () => {
+  it('places a flexible template with day: 1 in its window on the day after the target date', () => {
+    const [flexible] = convert({
+      anchor: '2024-06-03',
+      templates: [
+        { title: 'Prep', day: 1, duration: '2h', window: { start: '09:00', end: '17:00' } },
+        { title: 'Standup', start: '09:00', end: '09:15' },
+      ],
+    });
+
+    const span = resolveOffsets([flexible]).get(flexible)!;
+    expect(placeOffsetSpan(span, new Date(Date.UTC(2024, 5, 10)), ZONE)).toEqual({
+      start: '2024-06-11T09:00:00.000',
+      end: '2024-06-11T11:00:00.000',
+      time_zone: ZONE,
+    });
+  });
+
+  it('keeps the day of a flexible template when another one has an earlier anchor', () => {
+    const templates = convert({
+      anchor: '2024-06-03',
+      templates: [
+        { title: 'Email', anchor: '2024-05-27', duration: '30m', window: { start: '13:00', end: '17:00' } },
+        { title: 'Deep work', duration: '2h', window: { start: '09:00', end: '17:00' } },
+      ],
+    });
+
+    const spans = resolveOffsets(templates);
+    expect(spans.get(templates[1])).toEqual({ start: 9 * 60, end: 11 * 60 });
+  });
+
+  it('rejects a start time in the offset of a flexible template', () => {
+    const [flexible] = convert({
+      templates: [{ title: 'Deep work', duration: '2h', window: { start: '09:00', end: '17:00' } }],
+    });
+
+    expect(() => resolveOffsets([{ ...flexible, offset: { day: 0, start: 540 } }])).toThrow(
+      'Template "Deep work": A flexible template is placed in its window, so its offset only takes day'
+    );
+  });
+});
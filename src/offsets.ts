@@ -0,0 +1,365 @@
+import { TemplateOffset, TemplateTimeBlock } from './types';
+import {
+  addDays,
+  calendarDaysBetween,
+  formatDate,
+  formatWallClock,
+  instantToWallClock,
+  toInstant,
+  toWallClock,
+  wallClockToInstant,
+} from './date-utils';
+import { getDatePropertyName, getTemplateKey } from './existing-blocks';
+import { ValidationError } from './errors';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Where an offset puts a template's block, in minutes after the target date's midnight
+ * Times past 1440 are on a later day. All-day blocks run from midnight to midnight
+ */
+export interface OffsetSpan {
+  start: number;
+  end: number;
+  allDay?: boolean;
+}
+
+/**
+ * Work out where the block of every template with an offset goes
+ * A template placed after another one starts when that one's block ends, plus
+ * the gap, so chains like "Review after Deep work, after Standup" are followed
+ * through. A flexible template's offset only gives its day, and its span is the start
+ * of its window on that day, which the packer moves it from.
+ * Templates without an offset are left out; they fall back to the reference date
+ */
+export function resolveOffsets(templates: TemplateTimeBlock[]): Map<TemplateTimeBlock, OffsetSpan> {
+  const spans = new Map<TemplateTimeBlock, OffsetSpan>();
+  const resolving = new Set<TemplateTimeBlock>();
+
+  const resolve = (template: TemplateTimeBlock): OffsetSpan => {
+    const known = spans.get(template);
+    if (known) {
+      return known;
+    }
+
+    const offset = template.offset!;
+    const fail = (message: string) => new ValidationError(`Template "${template.title}": ${message}`);
+    try {
+      checkOffset(offset, !!template.flexible);
+    } catch (error) {
+      throw fail((error as Error).message);
+    }
+    if (!getDatePropertyName(template.properties)) {
+      throw fail('An offset needs a date property to set');
+    }
+    if (resolving.has(template)) {
+      throw fail('Offsets refer to each other in a loop');
+    }
+
+    let start: number;
+    if (template.flexible) {
+      start = (offset.day ?? 0) * MINUTES_PER_DAY + template.flexible.window.start;
+      const span = { start, end: start + template.flexible.duration };
+      spans.set(template, span);
+      return span;
+    } else if (offset.start === undefined && offset.after === undefined) {
+      start = (offset.day ?? 0) * MINUTES_PER_DAY;
+      const span = { start, end: start + (offset.days ?? 1) * MINUTES_PER_DAY, allDay: true };
+      spans.set(template, span);
+      return span;
+    } else if (offset.after !== undefined) {
+      const previous = findPreviousTemplate(templates, offset.after, template);
+      if (typeof previous === 'string') {
+        throw fail(previous);
+      }
+      resolving.add(template);
+      start = resolve(previous).end + (offset.gap ?? 0);
+      resolving.delete(template);
+    } else {
+      start = (offset.day ?? 0) * MINUTES_PER_DAY + offset.start!;
+    }
+
+    const span = { start, end: start + offset.duration! };
+    spans.set(template, span);
+    return span;
+  };
+
+  for (const template of templates) {
+    if (template.offset) {
+      resolve(template);
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Check an offset, which may have been written by hand in the templates file
+ * Flexible templates are placed in their window, so their offset only takes the day
+ */
+function checkOffset(offset: TemplateOffset, flexible: boolean): void {
+  const isWhole = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+
+  if (!offset || typeof offset !== 'object') {
+    throw new Error(`offset must be an object like { day: 0, start: 540, duration: 30 }, got ${JSON.stringify(offset)}`);
+  }
+
+  if (flexible) {
+    if (Object.keys(offset).some((key) => key !== 'day')) {
+      throw new Error('A flexible template is placed in its window, so its offset only takes day');
+    }
+    if (offset.day !== undefined && !isWhole(offset.day, 0)) {
+      throw new Error(`offset.day must be a whole number of days after the target date, got ${JSON.stringify(offset.day)}`);
+    }
+    return;
+  }
+
+  // Without a start time, the block is all-day
+  if (offset.start === undefined && offset.after === undefined) {
+    if (offset.duration !== undefined || offset.gap !== undefined) {
+      throw new Error('An all-day offset (without start) takes days instead of duration and gap');
+    }
+    if (offset.day !== undefined && !isWhole(offset.day, 0)) {
+      throw new Error(`offset.day must be a whole number of days after the target date, got ${JSON.stringify(offset.day)}`);
+    }
+    if (offset.days !== undefined && !isWhole(offset.days, 1)) {
+      throw new Error(`offset.days must be a positive number of days, got ${JSON.stringify(offset.days)}`);
+    }
+    return;
+  }
+
+  if (offset.days !== undefined) {
+    throw new Error('offset.days only applies to all-day offsets (without start)');
+  }
+  if (!isWhole(offset.duration, 1)) {
+    throw new Error(`offset.duration must be a positive number of minutes, got ${JSON.stringify(offset.duration)}`);
+  }
+
+  if (offset.after !== undefined) {
+    if (typeof offset.after !== 'string' || !offset.after) {
+      throw new Error(`offset.after must be the title or key of a template, got ${JSON.stringify(offset.after)}`);
+    }
+    if (offset.day !== undefined || offset.start !== undefined) {
+      throw new Error('offset.after takes a gap instead of day and start');
+    }
+    if (offset.gap !== undefined && !isWhole(offset.gap, 0)) {
+      throw new Error(`offset.gap must be a number of minutes, got ${JSON.stringify(offset.gap)}`);
+    }
+    return;
+  }
+
+  if (offset.gap !== undefined) {
+    throw new Error('offset.gap only applies with offset.after');
+  }
+  if (offset.day !== undefined && !isWhole(offset.day, 0)) {
+    throw new Error(`offset.day must be a whole number of days after the target date, got ${JSON.stringify(offset.day)}`);
+  }
+  if (!isWhole(offset.start, 0) || offset.start! >= MINUTES_PER_DAY) {
+    throw new Error(`offset.start must be minutes after midnight (0-1439), got ${JSON.stringify(offset.start)}`);
+  }
+}
+
+/**
+ * Find the template an offset follows by key, or else by title
+ * Returns the problem instead when there's no single other template with an offset
+ */
+function findPreviousTemplate(
+  templates: TemplateTimeBlock[],
+  name: string,
+  template: TemplateTimeBlock
+): TemplateTimeBlock | string {
+  const byKey = templates.filter((other) => other.id === name);
+  const matches = byKey.length > 0 ? byKey : templates.filter((other) => other.title === name);
+
+  if (matches.length === 0) {
+    return `offset.after: No template "${name}"`;
+  }
+  if (matches.length > 1) {
+    return `offset.after: Several templates are called "${name}"; give the template key instead`;
+  }
+  if (matches[0] === template) {
+    return 'offset.after refers to the template itself';
+  }
+  if (matches[0].flexible) {
+    return `offset.after: "${getTemplateKey(matches[0])}" is flexible, so its time isn't known in advance`;
+  }
+  if (!matches[0].offset) {
+    return `offset.after: "${getTemplateKey(matches[0])}" has no offset. Run with --migrate-offsets to give it one`;
+  }
+  if (matches[0].offset.start === undefined && matches[0].offset.after === undefined) {
+    return `offset.after: "${getTemplateKey(matches[0])}" is all-day, so it has no end time to follow`;
+  }
+  return matches[0];
+}
+
+/**
+ * Get the date value an offset span gives on a target date
+ * All-day spans become dates without a time or time zone, with an end only when
+ * they last several days
+ */
+export function placeOffsetSpan(
+  span: OffsetSpan,
+  targetDate: Date,
+  timeZone: string
+): { start: string; end: string | null; time_zone: string | null } {
+  if (span.allDay) {
+    const days = (span.end - span.start) / MINUTES_PER_DAY;
+    const first = addDays(targetDate, span.start / MINUTES_PER_DAY);
+    return {
+      start: formatDate(first),
+      end: days > 1 ? formatDate(addDays(first, days - 1)) : null,
+      time_zone: null,
+    };
+  }
+
+  return {
+    start: formatOffsetTime(targetDate, span.start, timeZone),
+    end: formatOffsetTime(targetDate, span.end, timeZone),
+    time_zone: timeZone,
+  };
+}
+
+/**
+ * Format the time an offset span starts or ends at on a target date,
+ * as a datetime without a UTC offset in the time zone
+ */
+export function formatOffsetTime(targetDate: Date, minutes: number, timeZone: string): string {
+  const day = addDays(targetDate, Math.floor(minutes / MINUTES_PER_DAY));
+  const time = minutes % MINUTES_PER_DAY;
+
+  // Round-trip through an instant so a time inside a DST gap becomes a real time
+  const wall = {
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth() + 1,
+    day: day.getUTCDate(),
+    hour: Math.floor(time / 60),
+    minute: time % 60,
+    second: 0,
+    millisecond: 0,
+  };
+  return formatWallClock(instantToWallClock(wallClockToInstant(wall, timeZone), timeZone));
+}
+
+/**
+ * Get the date the other dates of a template with an offset are counted from,
+ * such as a due date or dates in its page content: the day of its own date,
+ * less the days its offset places it after the target date
+ */
+export function getOffsetReference(template: TemplateTimeBlock, span: OffsetSpan, timeZone: string): Date | null {
+  const name = getDatePropertyName(template.properties);
+  const date = name ? template.properties[name].date : null;
+  if (!date?.start) {
+    return null;
+  }
+
+  const zone = date.time_zone || timeZone;
+  const start = toWallClock(date.start, zone);
+  const day = addDays(
+    new Date(Date.UTC(start.year, start.month - 1, start.day)),
+    -Math.floor(span.start / MINUTES_PER_DAY)
+  );
+
+  return wallClockToInstant(
+    {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+    },
+    zone
+  );
+}
+
+/**
+ * Find the reference date (earliest date) across all templates
+ * Templates without an offset are placed this many days after the target date
+ * as their own date is after it. Times without an offset are read in the
+ * template's or the configured time zone
+ */
+export function findReferenceDate(templates: TemplateTimeBlock[], timeZone: string): Date | null {
+  let earliest: Date | null = null;
+
+  for (const template of templates) {
+    for (const [, value] of Object.entries(template.properties)) {
+      const prop = value as any;
+      if (prop && typeof prop === 'object' && prop.type === 'date' && prop.date) {
+        const zone = prop.date.time_zone || timeZone;
+        if (prop.date.start) {
+          const startDate = toInstant(prop.date.start, zone);
+          if (!earliest || startDate < earliest) {
+            earliest = startDate;
+          }
+        }
+        if (prop.date.end) {
+          const endDate = toInstant(prop.date.end, zone);
+          if (!earliest || endDate < earliest) {
+            earliest = endDate;
+          }
+        }
+      }
+    }
+  }
+
+  return earliest;
+}
+
+/**
+ * Work out the offset that puts a template's block where the reference date puts it now
+ * Date-only values give an all-day offset. Returns null for templates with a start
+ * time but no end time, which can't be given one
+ */
+export function toExplicitOffset(
+  template: TemplateTimeBlock,
+  referenceDate: Date | null,
+  timeZone: string
+): TemplateOffset | null {
+  const name = getDatePropertyName(template.properties);
+  const date = name ? template.properties[name].date : null;
+  if (!date?.start) {
+    return null;
+  }
+
+  const zone = date.time_zone || timeZone;
+  const start = toWallClock(date.start, zone);
+  const day = referenceDate ? calendarDaysBetween(instantToWallClock(referenceDate, zone), start) : 0;
+
+  if (date.start.length === 10) {
+    const days = date.end ? calendarDaysBetween(start, toWallClock(date.end, zone)) + 1 : 1;
+    return days > 1 ? { day, days } : { day };
+  }
+  if (!date.end) {
+    return null;
+  }
+
+  const end = toWallClock(date.end, zone);
+
+  const startMinutes = start.hour * 60 + start.minute;
+  const duration = calendarDaysBetween(start, end) * MINUTES_PER_DAY + end.hour * 60 + end.minute - startMinutes;
+  if (duration <= 0) {
+    return null;
+  }
+
+  return { day, start: startMinutes, duration };
+}
+
+/**
+ * Describe an offset, e.g. "day 1, 09:00, 30 min", "15 min after Standup, 45 min" or "day 3, all day"
+ * A flexible template's offset is just its day, e.g. "day 1, in its window"
+ */
+export function describeOffset(offset: TemplateOffset, flexible = false): string {
+  if (flexible) {
+    return `day ${offset.day ?? 0}, in its window`;
+  }
+  if (offset.after !== undefined) {
+    return `${offset.gap ?? 0} min after ${offset.after}, ${offset.duration} min`;
+  }
+  if (offset.start === undefined) {
+    return `day ${offset.day ?? 0}, all day${offset.days && offset.days > 1 ? ` for ${offset.days} days` : ''}`;
+  }
+  const hours = String(Math.floor(offset.start! / 60)).padStart(2, '0');
+  const minutes = String(offset.start! % 60).padStart(2, '0');
+  return `day ${offset.day ?? 0}, ${hours}:${minutes}, ${offset.duration} min`;
+}
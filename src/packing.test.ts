@@ -0,0 +1,86 @@
+import { packBlocks, PackRequest } from './packing';
+import { TimeSpan } from './conflicts';
+import { toInstant } from './date-utils';
+
+const MINUTE = 60 * 1000;
+const ZONE = 'Europe/Berlin';
+
+// Instant of a wall clock time on 2024-06-10 in Berlin
+const at = (time: string) => toInstant(`2024-06-10T${time}`, ZONE).getTime();
+const span = (start: string, end: string): TimeSpan => ({ start: at(start), end: at(end) });
+
+const request = (
+  item: string,
+  minutes: number,
+  window: TimeSpan,
+  priority?: number
+): PackRequest<string> => ({ item, duration: minutes * MINUTE, window, priority });
+
+describe('packBlocks', () => {
+  it('leaves out a block whose window is fully taken by fixed blocks', () => {
+    const placed = packBlocks(
+      [request('email', 30, span('13:00', '15:00'))],
+      [span('12:30', '14:00'), span('14:00', '15:30')]
+    );
+    expect(placed.has('email')).toBe(false);
+  });
+
+  it('leaves out a block longer than its window', () => {
+    const placed = packBlocks([request('deep work', 180, span('09:00', '11:00'))], []);
+    expect(placed.size).toBe(0);
+  });
+
+  it('places a block flush against the end of a fixed block', () => {
+    const placed = packBlocks([request('email', 30, span('09:00', '12:00'))], [span('09:00', '10:15')]);
+    expect(placed.get('email')).toEqual(span('10:15', '10:45'));
+  });
+
+  it('places a block flush against the start of a fixed block', () => {
+    const placed = packBlocks([request('email', 45, span('09:00', '12:00'))], [span('09:45', '12:00')]);
+    expect(placed.get('email')).toEqual(span('09:00', '09:45'));
+  });
+
+  it('breaks priority ties by input order, the same way on every run', () => {
+    const window = span('09:00', '10:00');
+    const requests = [request('a', 30, window, 1), request('b', 30, window, 1), request('c', 30, window, 1)];
+
+    for (let run = 0; run < 3; run++) {
+      const placed = packBlocks(requests, []);
+      expect(placed.get('a')).toEqual(span('09:00', '09:30'));
+      expect(placed.get('b')).toEqual(span('09:30', '10:00'));
+      expect(placed.has('c')).toBe(false);
+    }
+  });
+
+  it('places blocks by priority before input order, with unset priorities last', () => {
+    const window = span('09:00', '10:30');
+    const placed = packBlocks(
+      [request('unset', 30, window), request('low', 30, window, 5), request('high', 30, window, 1)],
+      []
+    );
+    expect(placed.get('high')).toEqual(span('09:00', '09:30'));
+    expect(placed.get('low')).toEqual(span('09:30', '10:00'));
+    expect(placed.get('unset')).toEqual(span('10:00', '10:30'));
+  });
+
+  it('counts the real length of a window that crosses a DST change', () => {
+    // 01:00 to 04:00 on the spring-forward day is only two hours long
+    const window = {
+      start: toInstant('2024-03-31T01:00', ZONE).getTime(),
+      end: toInstant('2024-03-31T04:00', ZONE).getTime(),
+    };
+
+    expect(packBlocks([request('long', 150, window)], []).size).toBe(0);
+    expect(packBlocks([request('fits', 120, window)], []).get('fits')).toEqual(window);
+  });
+
+  it('counts the extra hour of a window that crosses the fall-back change', () => {
+    // 01:00 to 04:00 on the fall-back day is four hours long
+    const window = {
+      start: toInstant('2024-10-27T01:00', ZONE).getTime(),
+      end: toInstant('2024-10-27T04:00', ZONE).getTime(),
+    };
+
+    expect(packBlocks([request('long', 240, window)], []).get('long')).toEqual(window);
+  });
+});
@@ -0,0 +1,64 @@
+import { overlapsSpan, TimeSpan } from './conflicts';
+
+/**
+ * A block of a flexible template waiting for a slot
+ */
+export interface PackRequest<T> {
+  item: T;
+  duration: number;  // Milliseconds
+  window: TimeSpan;  // The block has to start and end inside it
+  priority?: number;  // Lower numbers are placed first; unset is placed last
+}
+
+/**
+ * Pack blocks into the free time of their windows, each at the earliest start that fits
+ * Blocks are placed by priority, then in the order given, so the same input always
+ * gives the same slots. A placed block is busy for the blocks placed after it.
+ * Returns the span of each placed block; blocks that don't fit are left out
+ */
+export function packBlocks<T>(requests: PackRequest<T>[], busy: TimeSpan[]): Map<T, TimeSpan> {
+  const placed = new Map<T, TimeSpan>();
+  const taken = [...busy];
+
+  const ordered = requests
+    .map((request, index) => ({ request, index }))
+    .sort(
+      (a, b) =>
+        (a.request.priority ?? Infinity) - (b.request.priority ?? Infinity) || a.index - b.index
+    )
+    .map(({ request }) => request);
+
+  for (const request of ordered) {
+    const span = findEarliestSlot(request, taken);
+    if (span) {
+      placed.set(request.item, span);
+      taken.push(span);
+    }
+  }
+
+  return placed;
+}
+
+/**
+ * Find the earliest slot of a request's duration inside its window that is free
+ * A free slot either starts at the window start or right after something busy ends
+ */
+function findEarliestSlot<T>(request: PackRequest<T>, taken: TimeSpan[]): TimeSpan | null {
+  const { window, duration } = request;
+  if (duration <= 0 || window.end - window.start < duration) {
+    return null;
+  }
+
+  const starts = [window.start, ...taken.map((span) => span.end)]
+    .filter((start) => start >= window.start && start + duration <= window.end)
+    .sort((a, b) => a - b);
+
+  for (const start of starts) {
+    const candidate = { start, end: start + duration };
+    if (!taken.some((span) => overlapsSpan(span, candidate))) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
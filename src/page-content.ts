@@ -0,0 +1,208 @@
+import { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { TemplateBlock } from './types';
+import { logger } from './logger';
+
+// Blocks that can't be recreated through the API
+const UNSUPPORTED_TYPES = [
+  'child_page',
+  'child_database',
+  'link_preview',
+  'synced_block',
+  'template',
+  'unsupported',
+];
+
+// Blocks whose children must be sent along when the block is created
+const INLINE_CHILDREN_TYPES = ['table', 'column_list', 'column'];
+
+// Media blocks; only external URLs can be recreated, Notion-hosted files expire
+const MEDIA_TYPES = ['image', 'video', 'file', 'pdf', 'audio'];
+
+// Maximum number of blocks in one append request
+const APPEND_BATCH_SIZE = 100;
+
+/**
+ * Fetch the body of a page as template blocks, including nested children
+ * Blocks that can't be recreated are dropped, with a warning
+ */
+export async function fetchPageContent(
+  client: NotionClientWrapper,
+  pageId: string,
+  pageTitle: string
+): Promise<TemplateBlock[]> {
+  const blocks = await client.getBlockChildren(pageId);
+  const content: TemplateBlock[] = [];
+
+  for (const block of blocks) {
+    if (!isSupported(block)) {
+      logger.warn(`  ⚠ Warning: Skipping ${describeBlock(block)} in "${pageTitle}" (can't be copied)`);
+      continue;
+    }
+
+    const templateBlock: TemplateBlock = {
+      type: block.type,
+      [block.type]: (block as any)[block.type],
+    };
+
+    if (block.has_children) {
+      templateBlock.children = await fetchPageContent(client, block.id, pageTitle);
+    }
+
+    content.push(templateBlock);
+  }
+
+  return content;
+}
+
+/**
+ * Append template blocks to a page, including nested children
+ */
+export async function appendPageContent(
+  client: NotionClientWrapper,
+  parentId: string,
+  blocks: TemplateBlock[]
+): Promise<void> {
+  for (let i = 0; i < blocks.length; i += APPEND_BATCH_SIZE) {
+    const batch = blocks.slice(i, i + APPEND_BATCH_SIZE);
+    const created = await client.appendBlockChildren(parentId, batch.map(toBlockRequest));
+
+    for (const [index, block] of batch.entries()) {
+      await appendNestedContent(client, created[index].id, block);
+    }
+  }
+}
+
+/**
+ * Replace every date mention in the content using a shift function
+ * The shift function receives each date string and the zone to read it in
+ */
+export function shiftContentDates(
+  blocks: TemplateBlock[],
+  shift: (dateTime: string, timeZone: string) => string,
+  timeZone: string
+): TemplateBlock[] {
+  return mapDeep(blocks, (value) => {
+    if (value?.type !== 'mention' || value.mention?.type !== 'date' || !value.mention.date) {
+      return undefined;
+    }
+
+    const { start, end, time_zone } = value.mention.date;
+    const zone = time_zone || timeZone;
+    // Date-only mentions have no time, so they can't carry a time zone either
+    const dateOnly = !start || start.length === 10;
+
+    return {
+      ...value,
+      mention: {
+        type: 'date',
+        date: {
+          start: start ? shift(start, zone) : start,
+          end: end ? shift(end, zone) : end,
+          time_zone: dateOnly ? null : zone,
+        },
+      },
+      // Notion recomputes the displayed text from the mention
+      plain_text: undefined,
+    };
+  }) as TemplateBlock[];
+}
+
+/**
+ * Count the blocks in a content tree
+ */
+export function countBlocks(blocks: TemplateBlock[] | undefined): number {
+  return (blocks || []).reduce((total, block) => total + 1 + countBlocks(block.children), 0);
+}
+
+/**
+ * Append the children of a block that has just been created
+ */
+async function appendNestedContent(
+  client: NotionClientWrapper,
+  createdId: string,
+  block: TemplateBlock
+): Promise<void> {
+  if (!block.children || block.children.length === 0) {
+    return;
+  }
+
+  if (!INLINE_CHILDREN_TYPES.includes(block.type)) {
+    await appendPageContent(client, createdId, block.children);
+    return;
+  }
+
+  // The children were created along with the block; look them up to continue with theirs
+  if (block.children.some((child) => child.children && child.children.length > 0)) {
+    const createdChildren = await client.getBlockChildren(createdId);
+    for (const [index, child] of block.children.entries()) {
+      if (createdChildren[index]) {
+        await appendNestedContent(client, createdChildren[index].id, child);
+      }
+    }
+  }
+}
+
+/**
+ * Build the append request for a block
+ * Children are only included for block types that must be created with them
+ */
+function toBlockRequest(block: TemplateBlock): Record<string, any> {
+  const { children, ...request } = block;
+
+  if (INLINE_CHILDREN_TYPES.includes(block.type) && children) {
+    const inline = children.map(toBlockRequest);
+    return { ...request, [block.type]: { ...request[block.type], children: inline } };
+  }
+
+  return request;
+}
+
+/**
+ * Check whether a block can be recreated through the API
+ */
+function isSupported(block: BlockObjectResponse): boolean {
+  if (UNSUPPORTED_TYPES.includes(block.type)) {
+    return false;
+  }
+
+  if (MEDIA_TYPES.includes(block.type)) {
+    return (block as any)[block.type]?.type === 'external';
+  }
+
+  return true;
+}
+
+/**
+ * Describe a block for a warning
+ */
+function describeBlock(block: BlockObjectResponse): string {
+  return MEDIA_TYPES.includes(block.type)
+    ? `uploaded ${block.type.replace('_', ' ')}`
+    : `${block.type.replace('_', ' ')} block`;
+}
+
+/**
+ * Copy a JSON value, letting a function replace any nested value
+ * The function returns undefined to leave a value as it is
+ */
+function mapDeep(value: any, replace: (value: any) => any): any {
+  const replaced = replace(value);
+  if (replaced !== undefined) {
+    return replaced;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => mapDeep(item, replace));
+  }
+
+  if (value && typeof value === 'object') {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = mapDeep(item, replace);
+    }
+    return copy;
+  }
+
+  return value;
+}
@@ -0,0 +1,151 @@
+import { DatabaseObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { Config, CreatedParentPage } from './types';
+import { addDays, formatDate } from './date-utils';
+import { expandPlaceholders, findUnknownPlaceholders } from './placeholders';
+import { ConfigError } from './errors';
+import { logger } from './logger';
+
+/**
+ * A database of parent pages (days or weeks) the time blocks are linked to
+ */
+export interface ParentLink {
+  kind: 'day' | 'week';
+  database: string;
+  relationProperty: string;  // Relation property of the time blocks database
+  titleTemplate: string;
+  titleProperty: string;  // Title property of the parent database
+  dateProperty: string | null;  // Date property parent pages are found by; by title without one
+  pages: Map<string, string | null>;  // Page ID by day (or Monday); null when missing in a dry run
+}
+
+/**
+ * Check the configured day and week databases and the relation properties
+ * pointing to them, before anything is written
+ */
+export async function loadParentLinks(
+  client: NotionClientWrapper,
+  config: Config,
+  target: DatabaseObjectResponse
+): Promise<ParentLink[]> {
+  const settings = [
+    {
+      kind: 'day' as const,
+      database: config.dayPagesDatabase,
+      relationProperty: config.dayRelationProperty,
+      titleTemplate: config.dayPageTitle,
+      variable: 'NOTION_DAY_PAGE_TITLE',
+    },
+    {
+      kind: 'week' as const,
+      database: config.weekPagesDatabase,
+      relationProperty: config.weekRelationProperty,
+      titleTemplate: config.weekPageTitle,
+      variable: 'NOTION_WEEK_PAGE_TITLE',
+    },
+  ];
+
+  const links: ParentLink[] = [];
+  for (const { kind, database, relationProperty, titleTemplate, variable } of settings) {
+    if (!database) {
+      continue;
+    }
+
+    const relation = target.properties[relationProperty];
+    if (relation?.type !== 'relation') {
+      throw new ConfigError(
+        `The time blocks database needs a relation property "${relationProperty}" to link ${kind} pages ` +
+          `(set NOTION_${kind.toUpperCase()}_RELATION_PROPERTY to use another one)`
+      );
+    }
+    if (normalizeId(relation.relation.database_id) !== normalizeId(database)) {
+      throw new ConfigError(
+        `"${relationProperty}" relates to database ${relation.relation.database_id}, ` +
+          `not the ${kind} pages database ${database}`
+      );
+    }
+
+    const unknown = findUnknownPlaceholders({ title: { title: [{ text: { content: titleTemplate } }] } }, config.templateVars);
+    if (unknown.length > 0) {
+      throw new ConfigError(`${variable}: Unknown placeholder ${unknown.join(', ')}`);
+    }
+
+    const schema = await client.getDatabaseSchema(database);
+    const properties = Object.entries(schema.properties);
+    const titleProperty = properties.find(([, property]) => property.type === 'title')![0];
+    const dateProperty = properties.find(([, property]) => property.type === 'date')?.[0] ?? null;
+
+    logger.info(
+      `Linking ${kind} pages through "${relationProperty}" ` +
+        `(found by ${dateProperty ? `date property "${dateProperty}"` : 'title'})`
+    );
+    links.push({ kind, database, relationProperty, titleTemplate, titleProperty, dateProperty, pages: new Map() });
+  }
+
+  return links;
+}
+
+/**
+ * Find the parent page of a target date, creating it unless this is a dry run
+ * Week pages belong to the Monday of the week. Pages are looked up once per run.
+ * A page created here is returned as created, so the run can archive it on rollback
+ */
+export async function findOrCreateParentPage(
+  client: NotionClientWrapper,
+  link: ParentLink,
+  targetDate: Date,
+  variables: Record<string, string>,
+  dryRun: boolean
+): Promise<{ pageId: string | null; created?: CreatedParentPage }> {
+  // getUTCDay() is 0 for Sunday; weeks run Monday to Sunday
+  const day = link.kind === 'week' ? addDays(targetDate, -((targetDate.getUTCDay() + 6) % 7)) : targetDate;
+  const key = formatDate(day);
+  if (link.pages.has(key)) {
+    return { pageId: link.pages.get(key)! };
+  }
+
+  const title = expandPlaceholders(link.titleTemplate, { targetDate: day, templateIndex: 0, variables });
+  const findPages = () =>
+    client.getAllPages(
+      link.database,
+      link.dateProperty
+        ? { property: link.dateProperty, date: { equals: key } }
+        : { property: link.titleProperty, title: { equals: title } }
+    );
+  const pages = await findPages();
+
+  let pageId: string | null = pages[0]?.id ?? null;
+  let created: CreatedParentPage | undefined;
+  if (pages.length > 1) {
+    logger.warn(`  ⚠ Warning: ${pages.length} ${link.kind} pages for ${key}; linking the first one`);
+  }
+
+  if (pageId) {
+    logger.info(`Linking to ${link.kind} page "${title}"`);
+  } else if (dryRun) {
+    logger.info(`Would create ${link.kind} page "${title}"`);
+  } else {
+    const properties: Record<string, any> = {
+      [link.titleProperty]: { title: [{ type: 'text', text: { content: title } }] },
+    };
+    if (link.dateProperty) {
+      properties[link.dateProperty] = {
+        date: { start: key, end: link.kind === 'week' ? formatDate(addDays(day, 6)) : null },
+      };
+    }
+    // A create that timed out may have gone through, which the same lookup finds
+    pageId = (await client.createPage(link.database, properties, async () => (await findPages())[0])).id;
+    created = { kind: link.kind, title, pageId };
+    logger.info(`  ✓ Created ${link.kind} page "${title}"`, { event: 'parent.created', kind: link.kind, pageId });
+  }
+
+  link.pages.set(key, pageId);
+  return { pageId, created };
+}
+
+/**
+ * Database IDs are written with or without dashes
+ */
+function normalizeId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
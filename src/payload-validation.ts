@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import { SavedSchema } from './types';
+
+/**
+ * Load the schema saved by init mode
+ */
+export async function loadSavedSchema(schemaFilePath: string): Promise<SavedSchema> {
+  try {
+    const content = await fs.readFile(schemaFilePath, 'utf-8');
+    return JSON.parse(content) as SavedSchema;
+  } catch (error) {
+    throw new Error(
+      `Could not read schema from ${schemaFilePath}. Run with --init first to save it. ` +
+        `(${(error as Error).message})`
+    );
+  }
+}
+
+/**
+ * Check a page properties payload against a saved database schema
+ * Returns a list of problems; an empty list means the payload is valid
+ */
+export function validatePayload(
+  properties: Record<string, any>,
+  schema: SavedSchema,
+  ignoredProperties: string[] = []
+): string[] {
+  const errors: string[] = [];
+  const schemaProperties = schema.database.properties as Record<string, any>;
+
+  for (const [name, value] of Object.entries(properties)) {
+    if (ignoredProperties.includes(name)) {
+      continue;
+    }
+
+    const schemaProp = schemaProperties[name];
+    if (!schemaProp) {
+      errors.push(`Property "${name}" does not exist in the database schema`);
+      continue;
+    }
+
+    // A payload value has exactly one key, named after its property type
+    const payloadType = Object.keys(value || {})[0];
+    if (payloadType !== schemaProp.type) {
+      errors.push(
+        `Property "${name}" is sent as ${payloadType || 'an empty value'} but the schema says ${schemaProp.type}`
+      );
+      continue;
+    }
+
+    errors.push(...validateValue(name, payloadType, value[payloadType], schemaProp));
+  }
+
+  return errors;
+}
+
+/**
+ * Check the value of a single property against its schema definition
+ */
+function validateValue(name: string, type: string, value: any, schemaProp: any): string[] {
+  const errors: string[] = [];
+
+  if (type === 'select' || type === 'status') {
+    if (value && !hasOption(schemaProp[type].options, value.name)) {
+      errors.push(`Property "${name}" has ${type} option "${value.name}" which is not in the schema`);
+    }
+  } else if (type === 'multi_select') {
+    for (const option of value || []) {
+      if (!hasOption(schemaProp.multi_select.options, option.name)) {
+        errors.push(`Property "${name}" has option "${option.name}" which is not in the schema`);
+      }
+    }
+  } else if (type === 'date') {
+    if (value && !value.start) {
+      errors.push(`Property "${name}" has a date without a start`);
+    }
+  } else if (type === 'number') {
+    if (value !== null && typeof value !== 'number') {
+      errors.push(`Property "${name}" has a non-numeric value`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether a select/status option with the given name exists
+ */
+function hasOption(options: { name: string }[] | undefined, name: string): boolean {
+  return (options || []).some((option) => option.name === name);
+}
@@ -0,0 +1,212 @@
+import { formatDate } from './date-utils';
+
+/**
+ * Values available to placeholders in one generated time block
+ */
+export interface PlaceholderContext {
+  targetDate: Date;
+  templateIndex: number;
+  variables: Record<string, string>;
+}
+
+// Matches {{name}} and {{name:argument}}, allowing spaces inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}\}/g;
+
+const BUILT_IN_NAMES = ['date', 'weekday', 'week', 'template.index'];
+
+// Custom variable names: letters, digits, underscores and dashes
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Longest tokens first so "MMMM" isn't read as "MM" twice; [text] is kept literally
+const DATE_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd/g;
+
+/**
+ * Replace the placeholders in a string
+ * Throws on unknown variables so a typo doesn't end up in Notion
+ */
+export function expandPlaceholders(text: string, context: PlaceholderContext): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string, argument?: string) =>
+    resolvePlaceholder(match, name, argument, context)
+  );
+}
+
+/**
+ * Replace the placeholders in the title and rich text properties of a payload
+ * Only plain text runs are expanded; mentions and equations are left alone
+ */
+export function expandPropertyPlaceholders(
+  properties: Record<string, any>,
+  context: PlaceholderContext
+): Record<string, any> {
+  const expanded: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (value.title) {
+      expanded[key] = { title: expandRichText(value.title, context) };
+    } else if (value.rich_text) {
+      expanded[key] = { rich_text: expandRichText(value.rich_text, context) };
+    } else {
+      expanded[key] = value;
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * List the placeholders in a template that can't be resolved
+ */
+export function findUnknownPlaceholders(
+  properties: Record<string, any>,
+  variables: Record<string, string>
+): string[] {
+  const unknown: string[] = [];
+
+  for (const value of Object.values(properties)) {
+    const richText = value?.title || value?.rich_text;
+    if (!Array.isArray(richText)) {
+      continue;
+    }
+
+    for (const run of richText) {
+      for (const match of (run.text?.content || '').matchAll(PLACEHOLDER_PATTERN)) {
+        if (!BUILT_IN_NAMES.includes(match[1]) && !(match[1] in variables)) {
+          unknown.push(match[0]);
+        }
+      }
+    }
+  }
+
+  return unknown;
+}
+
+/**
+ * Parse custom variables given as "name=value" entries
+ */
+export function parseVariables(entries: string[], source: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const entry of entries) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const separator = entry.indexOf('=');
+    const name = entry.substring(0, separator).trim();
+    if (separator < 0 || !VARIABLE_NAME_PATTERN.test(name)) {
+      throw new Error(`${source} entries must look like "name=value", got "${entry.trim()}"`);
+    }
+    if (BUILT_IN_NAMES.includes(name)) {
+      throw new Error(`${source}: "${name}" is a built-in placeholder and can't be redefined`);
+    }
+
+    variables[name] = entry.substring(separator + 1).trim();
+  }
+
+  return variables;
+}
+
+/**
+ * Expand the placeholders in a rich text array, keeping plain_text in step
+ */
+function expandRichText(richText: any[], context: PlaceholderContext): any[] {
+  return richText.map((run) => {
+    if (run.type !== 'text' || !run.text) {
+      return run;
+    }
+
+    const content = expandPlaceholders(run.text.content, context);
+    return {
+      ...run,
+      text: { ...run.text, content },
+      ...(run.plain_text !== undefined ? { plain_text: content } : {}),
+    };
+  });
+}
+
+/**
+ * Work out the value of a single placeholder
+ */
+function resolvePlaceholder(
+  match: string,
+  name: string,
+  argument: string | undefined,
+  context: PlaceholderContext
+): string {
+  const date = context.targetDate;
+
+  switch (name) {
+    case 'date':
+      return argument?.trim() ? formatDatePattern(date, argument.trim()) : formatDate(date);
+    case 'weekday':
+      return WEEKDAY_NAMES[date.getUTCDay()];
+    case 'week':
+      return String(getIsoWeek(date));
+    case 'template.index':
+      return String(context.templateIndex);
+  }
+
+  if (name in context.variables) {
+    return context.variables[name];
+  }
+
+  const available = [...BUILT_IN_NAMES, ...Object.keys(context.variables)].join(', ');
+  throw new Error(`Unknown placeholder ${match} (available: ${available})`);
+}
+
+/**
+ * Format a calendar date with tokens like YYYY-MM-DD or dddd, MMMM D
+ */
+function formatDatePattern(date: Date, pattern: string): string {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  return pattern.replace(DATE_TOKEN_PATTERN, (token, literal?: string) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    switch (token) {
+      case 'YYYY':
+        return String(year);
+      case 'YY':
+        return String(year % 100).padStart(2, '0');
+      case 'MMMM':
+        return MONTH_NAMES[month];
+      case 'MMM':
+        return MONTH_NAMES[month].substring(0, 3);
+      case 'MM':
+        return String(month + 1).padStart(2, '0');
+      case 'M':
+        return String(month + 1);
+      case 'DD':
+        return String(day).padStart(2, '0');
+      case 'D':
+        return String(day);
+      case 'dddd':
+        return WEEKDAY_NAMES[date.getUTCDay()];
+      default:
+        return WEEKDAY_NAMES[date.getUTCDay()].substring(0, 3);
+    }
+  });
+}
+
+/**
+ * Get the ISO 8601 week number of a calendar date (weeks start on Monday)
+ */
+function getIsoWeek(date: Date): number {
+  // The Thursday of a week decides which year the week belongs to
+  const thursday = new Date(date.getTime());
+  thursday.setUTCDate(date.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.floor((thursday.getTime() - yearStart) / 86400000 / 7) + 1;
+}
@@ -0,0 +1,111 @@
+import { PlanFormat, PlannedAction, PlannedChange } from './types';
+import { formatDateTime } from './date-utils';
+
+/**
+ * Print the changes a dry run would make, as a table or as JSON
+ * The plan is the output of a dry run, so it goes to stdout whatever the log level
+ */
+export function printPlan(changes: PlannedChange[], format: PlanFormat, timeZone: string): void {
+  const counts = countActions(changes);
+  const invalid = changes.filter((change) => change.errors.length > 0).length;
+
+  if (format === 'json') {
+    const output = {
+      changes: changes.map((change) => ({
+        action: change.action,
+        title: change.title,
+        date: change.date ?? null,
+        pageId: change.pageId ?? null,
+        start: change.start,
+        end: change.end,
+        properties: change.properties ?? null,
+        errors: change.errors,
+        conflict: change.conflict ?? null,
+      })),
+      summary: { ...counts, invalid },
+    };
+    process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+    return;
+  }
+
+  if (changes.length === 0) {
+    print('Nothing to do.');
+    return;
+  }
+
+  const header = ['ACTION', 'DATE', 'START', 'END', 'TITLE', 'ISSUES'];
+  const rows = changes.map((change) => [
+    change.action,
+    change.date || '-',
+    formatPlanTime(change.start, timeZone),
+    formatPlanTime(change.end, timeZone),
+    change.title,
+    [
+      ...(change.errors.length > 0 ? [`✗ ${change.errors.join('; ')}`] : []),
+      ...(change.conflict ? [`⚠ ${change.conflict}`] : []),
+    ].join(' '),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  print(formatRow(header));
+  print(formatRow(widths.map((width) => '-'.repeat(width))));
+  for (const row of rows) {
+    print(formatRow(row));
+  }
+
+  const totals = (Object.keys(counts) as PlannedAction[])
+    .filter((action) => counts[action] > 0)
+    .map((action) => `${counts[action]} ${action}`)
+    .join(', ');
+
+  print(`\nPlan: ${totals}`);
+  if (invalid > 0) {
+    print(`✗ ${invalid} invalid`);
+  } else {
+    print('✓ All payloads valid');
+  }
+}
+
+/**
+ * Count the planned changes per action
+ */
+function countActions(changes: PlannedChange[]): Record<PlannedAction, number> {
+  const counts: Record<PlannedAction, number> = {
+    create: 0,
+    update: 0,
+    recreate: 0,
+    skip: 0,
+    delete: 0,
+  };
+
+  for (const change of changes) {
+    counts[change.action]++;
+  }
+
+  return counts;
+}
+
+/**
+ * Format a start/end value for the table, keeping date-only values as they are
+ */
+function formatPlanTime(value: string | null, timeZone: string): string {
+  if (!value) {
+    return '-';
+  }
+  if (value.length === 10) {
+    return value;
+  }
+  return formatDateTime(value, timeZone).substring(0, 16);
+}
+
+/**
+ * Write a line of the plan to stdout
+ */
+function print(line: string): void {
+  process.stdout.write(line + '\n');
+}
@@ -0,0 +1,323 @@
+import fs from 'fs/promises';
+import yaml from 'js-yaml';
+import { DatabaseObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { ComputedValue, PropertyRule, PropertyRulesFile, TemplateTimeBlock } from './types';
+import { formatDate, formatDateTime, formatWallClock, instantToWallClock, todayInTimeZone } from './date-utils';
+import { getTemplateKey } from './existing-blocks';
+import { toPropertyValue } from './local-templates';
+import { expandPropertyPlaceholders, findUnknownPlaceholders, PlaceholderContext } from './placeholders';
+import { ConfigError, ValidationError } from './errors';
+import { logger } from './logger';
+
+const ACTIONS = ['set', 'override', 'clear', 'compute', 'mapRelations'] as const;
+
+const COMPUTED_VALUES: ComputedValue[] = ['now', 'today', 'target-date'];
+
+// Values that leave a property empty, by property type
+const EMPTY_VALUES: Record<string, unknown> = {
+  rich_text: [],
+  number: null,
+  select: null,
+  multi_select: [],
+  checkbox: false,
+  url: null,
+  email: null,
+  phone_number: null,
+  relation: [],
+  people: [],
+  files: [],
+  date: null,
+};
+
+/**
+ * A property rule checked against the time blocks database schema
+ */
+export interface CompiledRule {
+  label: string;  // Where the rule is in the file, for messages
+  properties: string[];  // Time blocks database properties it applies to
+  type: string;  // Their property type
+  templates: string[] | null;  // Titles or keys of the templates it applies to; null for all
+  action: (typeof ACTIONS)[number];
+  value?: Record<string, any>;  // Payload value of set, override and clear
+  compute?: ComputedValue;
+  relations?: Map<string, string>;
+  unmapped: Set<string>;  // Relation page IDs already warned about
+}
+
+/**
+ * What a rule is applied to: one block of a template on a target date
+ */
+export interface RuleContext {
+  template: TemplateTimeBlock;
+  targetDate: Date;
+  timeZone: string;
+  placeholders: PlaceholderContext;
+}
+
+/**
+ * Load the property rules file and check its rules against the time blocks database
+ * Values are given as in local templates, e.g. a select option by name.
+ * All problems are reported together so the file can be fixed in one go
+ */
+export async function loadPropertyRules(
+  filePath: string,
+  schema: DatabaseObjectResponse,
+  variables: Record<string, string>
+): Promise<CompiledRule[]> {
+  let file: PropertyRulesFile;
+  try {
+    file = yaml.load(await fs.readFile(filePath, 'utf-8')) as PropertyRulesFile;
+  } catch (error) {
+    throw new ConfigError(`Could not read property rules from ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!file || typeof file !== 'object' || !Array.isArray(file.rules)) {
+    throw new ValidationError(`${filePath} must have a "rules" list`);
+  }
+
+  const errors: string[] = [];
+  const rules: CompiledRule[] = [];
+  const properties = schema.properties as Record<string, any>;
+
+  file.rules.forEach((rule, index) => {
+    const label = `rules[${index}]${rule?.property ? ` "${rule.property}"` : rule?.type ? ` (${rule.type})` : ''}`;
+    const ruleErrors: string[] = [];
+    const compiled = compileRule(rule, label, properties, variables, ruleErrors);
+
+    errors.push(...ruleErrors.map((error) => `${label}: ${error}`));
+    if (compiled && ruleErrors.length === 0) {
+      rules.push(compiled);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(
+      `${filePath} has ${errors.length} errors:\n` + errors.map((error) => `  ✗ ${error}`).join('\n')
+    );
+  }
+
+  return rules;
+}
+
+/**
+ * Check a single rule and convert its value, collecting problems in errors
+ */
+function compileRule(
+  rule: PropertyRule,
+  label: string,
+  schemaProperties: Record<string, any>,
+  variables: Record<string, string>,
+  errors: string[]
+): CompiledRule | null {
+  if (!rule || typeof rule !== 'object') {
+    errors.push('Expected a rule with a property (or type) and an action');
+    return null;
+  }
+
+  let properties: string[] = [];
+  if ((rule.property === undefined) === (rule.type === undefined)) {
+    errors.push('Give either property or type');
+  } else if (rule.property !== undefined) {
+    if (!schemaProperties[rule.property]) {
+      errors.push(`Unknown property "${rule.property}" (not in the time blocks database)`);
+    } else {
+      properties = [rule.property];
+    }
+  } else if (rule.type === 'date') {
+    // Every date property would include the one holding the time block's own times
+    errors.push('Date rules must name their property, so they leave the time block\'s own date alone');
+  } else {
+    properties = Object.keys(schemaProperties).filter((name) => schemaProperties[name].type === rule.type);
+    if (properties.length === 0) {
+      errors.push(`The time blocks database has no ${rule.type} properties`);
+    }
+  }
+
+  const actions = ACTIONS.filter((action) => rule[action] !== undefined);
+  if (actions.length !== 1) {
+    errors.push(`Give exactly one of ${ACTIONS.join(', ')}`);
+  }
+
+  let templates: string[] | null = null;
+  if (rule.templates !== undefined) {
+    templates = (Array.isArray(rule.templates) ? rule.templates : [rule.templates]).map(String);
+  }
+
+  if (properties.length === 0 || actions.length !== 1) {
+    return null;
+  }
+
+  const type: string = schemaProperties[properties[0]].type;
+  const compiled: CompiledRule = { label, properties, type, templates, action: actions[0], unmapped: new Set() };
+
+  switch (compiled.action) {
+    case 'set':
+    case 'override': {
+      if (type === 'date') {
+        errors.push(`Date properties take compute (${COMPUTED_VALUES.join(', ')}) instead of ${compiled.action}`);
+        break;
+      }
+      try {
+        compiled.value = toPropertyValue(type, rule[compiled.action]);
+      } catch (error) {
+        errors.push((error as Error).message);
+        break;
+      }
+      // Notion adds missing select options when writing, but not status options
+      const status = compiled.value?.status?.name;
+      const options: { name: string }[] = schemaProperties[properties[0]].status?.options ?? [];
+      if (type === 'status' && !options.some((option) => option.name === status)) {
+        errors.push(`Unknown status "${status}" (options: ${options.map((option) => option.name).join(', ')})`);
+      }
+      const unknown = findUnknownPlaceholders({ value: compiled.value }, variables);
+      if (unknown.length > 0) {
+        errors.push(`Unknown placeholder ${unknown.join(', ')}`);
+      }
+      break;
+    }
+    case 'clear':
+      if (rule.clear !== true) {
+        errors.push(`clear must be true, got ${JSON.stringify(rule.clear)}`);
+      } else if (!(type in EMPTY_VALUES)) {
+        errors.push(`${type} properties can't be cleared`);
+      } else {
+        compiled.value = { [type]: EMPTY_VALUES[type] };
+      }
+      break;
+    case 'compute':
+      if (!COMPUTED_VALUES.includes(rule.compute!)) {
+        errors.push(`compute must be one of ${COMPUTED_VALUES.join(', ')}, got ${JSON.stringify(rule.compute)}`);
+      } else if (type !== 'date' && type !== 'rich_text' && type !== 'title') {
+        errors.push(`Only date, text and title properties can be computed, not ${type}`);
+      } else {
+        compiled.compute = rule.compute;
+      }
+      break;
+    case 'mapRelations':
+      if (type !== 'relation') {
+        errors.push(`mapRelations only applies to relation properties, not ${type}`);
+      } else if (!rule.mapRelations || typeof rule.mapRelations !== 'object' || Array.isArray(rule.mapRelations)) {
+        errors.push('mapRelations must map template page IDs to the page IDs to link instead');
+      } else {
+        compiled.relations = new Map(
+          Object.entries(rule.mapRelations).map(([from, to]) => [normalizePageId(from), String(to)])
+        );
+      }
+      break;
+  }
+
+  return compiled;
+}
+
+/**
+ * Apply the rules to the properties of a block, in file order
+ * Properties are named as in the time blocks database
+ */
+export function applyPropertyRules(
+  properties: Record<string, any>,
+  rules: CompiledRule[],
+  context: RuleContext
+): Record<string, any> {
+  const updated = { ...properties };
+  const { template } = context;
+
+  for (const rule of rules) {
+    if (rule.templates && !rule.templates.includes(template.title) && !rule.templates.includes(getTemplateKey(template))) {
+      continue;
+    }
+
+    for (const name of rule.properties) {
+      switch (rule.action) {
+        case 'set':
+          if (isEmpty(updated[name])) {
+            updated[name] = expandPropertyPlaceholders({ [name]: rule.value }, context.placeholders)[name];
+          }
+          break;
+        case 'override':
+          updated[name] = expandPropertyPlaceholders({ [name]: rule.value }, context.placeholders)[name];
+          break;
+        case 'clear':
+          updated[name] = rule.value;
+          break;
+        case 'compute':
+          updated[name] = computeValue(rule.compute!, rule.type, context);
+          break;
+        case 'mapRelations':
+          if (updated[name]?.relation) {
+            updated[name] = { relation: mapRelations(updated[name].relation, rule) };
+          }
+          break;
+      }
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Get the names of the properties rules set, which may exist only in the time blocks database
+ */
+export function getRuleProperties(rules: CompiledRule[]): string[] {
+  return [...new Set(rules.flatMap((rule) => rule.properties))];
+}
+
+/**
+ * Work out a computed value as a property payload
+ */
+function computeValue(compute: ComputedValue, type: string, context: RuleContext): Record<string, any> {
+  const { timeZone } = context;
+  const now = new Date();
+
+  if (type === 'date') {
+    return {
+      date:
+        compute === 'now'
+          ? { start: formatWallClock(instantToWallClock(now, timeZone)), time_zone: timeZone }
+          : { start: formatDate(compute === 'today' ? todayInTimeZone(timeZone, now) : context.targetDate) },
+    };
+  }
+
+  const content =
+    compute === 'now'
+      ? formatDateTime(now, timeZone)
+      : formatDate(compute === 'today' ? todayInTimeZone(timeZone, now) : context.targetDate);
+  return toPropertyValue(type, content);
+}
+
+/**
+ * Swap the related pages of a template for the pages the rule maps them to
+ * Pages without a mapping are left out, with a warning the first time
+ */
+function mapRelations(relation: { id: string }[], rule: CompiledRule): { id: string }[] {
+  const mapped: { id: string }[] = [];
+
+  for (const page of relation) {
+    const id = rule.relations!.get(normalizePageId(page.id));
+    if (id) {
+      mapped.push({ id });
+    } else if (!rule.unmapped.has(page.id)) {
+      rule.unmapped.add(page.id);
+      logger.warn(`  ⚠ Warning: ${rule.label}: No mapping for related page ${page.id}; left out`);
+    }
+  }
+
+  return mapped;
+}
+
+/**
+ * Check whether a payload value leaves its property empty
+ */
+function isEmpty(value: Record<string, any> | undefined): boolean {
+  if (!value) {
+    return true;
+  }
+  const content = Object.values(value)[0];
+  return content === null || content === undefined || (Array.isArray(content) && content.length === 0);
+}
+
+/**
+ * Page IDs are written with or without dashes
+ */
+function normalizePageId(id: string): string {
+  return String(id).replace(/-/g, '').toLowerCase();
+}
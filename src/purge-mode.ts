@@ -1,63 +1,270 @@
+import fs from 'fs/promises';
+import {
+  DatabaseObjectResponse,
+  QueryDatabaseParameters,
+} from '@notionhq/client/build/src/api-endpoints';
 import { NotionClientWrapper } from './notion-client';
-import { Config } from './types';
+import {
+  Config,
+  PlannedChange,
+  PurgeFilters,
+  PurgeModeOptions,
+  RunOutcome,
+  RunReport,
+  RunReportItem,
+  SavedPurge,
+} from './types';
+import { buildDaysFilter, findDateProperty, findPageDay, getDatePropertyName } from './existing-blocks';
+import { printPlan } from './plan-output';
+import { formatDate } from './date-utils';
+import { logger } from './logger';
+import { startRunReport, writeRunReport } from './run-report';
+import { ConfigError, RunFailedError } from './errors';
 
 /**
- * Purge mode: Delete all entries from the time blocks database
+ * Purge mode: Delete entries from the time blocks database
+ * Deletes every entry unless options.filters narrows it down.
+ * The IDs of deleted entries are saved so --restore can bring them back.
+ * With options.dryRun, lists the entries that would be deleted instead
  */
-export async function runPurgeMode(config: Config, confirmed: boolean): Promise<void> {
-  console.log('Running purge mode...');
-  console.log(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
-
-  if (!confirmed) {
-    console.log('\n⚠️  WARNING: This will delete ALL entries from the time blocks database!');
-    console.log('   To confirm, run with: --purge --confirm');
-    console.log('\nAborting...');
+export async function runPurgeMode(
+  config: Config,
+  confirmed: boolean,
+  options: PurgeModeOptions
+): Promise<void> {
+  logger.info(options.dryRun ? 'Running purge mode (dry run)...' : 'Running purge mode...');
+  logger.info(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+
+  const filterDescription = describeFilters(options.filters);
+  if (filterDescription) {
+    logger.info(`Filters: ${filterDescription}`);
+  }
+
+  if (!confirmed && !options.dryRun) {
+    if (filterDescription) {
+      logger.info('\n⚠️  WARNING: This will delete all matching entries from the time blocks database!');
+    } else {
+      logger.info('\n⚠️  WARNING: This will delete ALL entries from the time blocks database!');
+    }
+    logger.info('   To confirm, run with: --purge --confirm');
+    logger.info('\nAborting...');
     return;
   }
 
+  const report = startRunReport('purge', config, options.dryRun, options.filters.runId);
+  try {
+    await purgeTimeBlocks(config, options, filterDescription, report);
+  } catch (error) {
+    await writeRunReport(report, config, error);
+    throw error;
+  }
+  await writeRunReport(report, config);
+}
+
+/**
+ * Delete the matching time blocks, recording each one in the report
+ */
+async function purgeTimeBlocks(
+  config: Config,
+  options: PurgeModeOptions,
+  filterDescription: string,
+  report: RunReport
+): Promise<void> {
   const client = new NotionClientWrapper(config);
 
-  // Fetch all pages from the time blocks database
-  console.log('\nFetching all time blocks...');
-  const pages = await client.getAllPages(config.timeBlocksDatabase);
+  let filter: QueryDatabaseParameters['filter'];
+  let dateProperty: string | undefined;
+  if (filterDescription) {
+    const schema = await client.getDatabaseSchema(config.timeBlocksDatabase);
+    if (options.filters.dateRange) {
+      dateProperty = findDateProperty(schema, config);
+    }
+    filter = buildPurgeFilter(options.filters, schema, config, dateProperty);
+  }
+
+  // Fetch the pages to delete from the time blocks database
+  logger.info(filter ? '\nFetching matching time blocks...' : '\nFetching all time blocks...');
+  let pages = await client.getAllPages(config.timeBlocksDatabase, filter);
+
+  // The date filter also finds timed pages on the same UTC days, which must not be deleted
+  const { dateRange } = options.filters;
+  if (dateRange && dateProperty) {
+    pages = pages.filter((page) =>
+      findPageDay(page, [dateProperty!], dateRange.start, dateRange.end, config.timeZone)
+    );
+  }
+
+  if (pages.length === 0 && !options.dryRun) {
+    logger.info(
+      filter
+        ? 'No matching time blocks found.'
+        : 'No time blocks found. Database is already empty.'
+    );
+    return;
+  }
 
-  if (pages.length === 0) {
-    console.log('No time blocks found. Database is already empty.');
+  if (options.dryRun) {
+    const plan = pages.map(planDeletion);
+    report.items.push(...plan.map((change) => toReportItem(change, 'planned')));
+
+    logger.info('');
+    printPlan(plan, options.format, config.timeZone);
     return;
   }
 
-  console.log(`Found ${pages.length} time blocks to delete`);
-  console.log('\nDeleting time blocks...');
+  logger.info(`Found ${pages.length} time blocks to delete`);
+  logger.info('\nDeleting time blocks...');
 
   let deleted = 0;
   let failed = 0;
+  const deletedPageIds: string[] = [];
 
-  for (const page of pages) {
-    try {
-      // Extract title for logging
-      const title = extractTitle(page);
+  // Deletions are independent, so several run at once (within the rate limit)
+  await client.forEachConcurrently(pages, async (page) => {
+    if (options.failFast && failed > 0) {
+      // Deletions already in flight finish, but no new ones start
+      return;
+    }
+
+    const change = planDeletion(page);
+    const title = change.title;
 
-      console.log(`  Deleting: ${title}`);
+    try {
       await client.deletePage(page.id);
       deleted++;
-      console.log(`  ✓ Deleted`);
-
-      // Small delay to respect rate limits
-      if (deleted + failed < pages.length) {
-        await delay(350);
-      }
+      deletedPageIds.push(page.id);
+      report.items.push(toReportItem(change, 'deleted'));
+      logger.info(`  ✓ Deleted: ${title}`, { event: 'block.deleted', title, pageId: page.id });
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       failed++;
-      console.error(`  ✗ Failed to delete page ${page.id}:`);
-      if (error instanceof Error) {
-        console.error(`     Error: ${error.message}`);
-      } else {
-        console.error(`     Error:`, error);
-      }
+      report.items.push({ ...toReportItem(change, 'failed'), error: message });
+      logger.error(`  ✗ Failed to delete ${title} (${page.id}):`);
+      logger.error(`     Error: ${message}`, {
+        event: 'block.delete_failed',
+        title,
+        pageId: page.id,
+        error: message,
+      });
+    }
+  });
+
+  logger.info(`\n✓ Purge complete: ${deleted} deleted, ${failed} failed`);
+
+  if (deletedPageIds.length > 0) {
+    const savedPurge: SavedPurge = {
+      purgedAt: new Date().toISOString(),
+      filters: filterDescription || 'all',
+      pageIds: deletedPageIds,
+    };
+    await fs.writeFile(config.lastPurgeFilePath, JSON.stringify(savedPurge, null, 2), 'utf-8');
+    logger.info(`  To undo, run with: --restore`);
+  }
+
+  if (failed > 0) {
+    throw new RunFailedError(
+      options.failFast
+        ? `A deletion failed; stopped after ${deleted} of ${pages.length} time blocks were deleted (--fail-fast)`
+        : `${failed} of ${pages.length} time blocks could not be deleted`,
+      deleted > 0
+    );
+  }
+}
+
+/**
+ * Build the Notion query filter for a scoped purge
+ */
+function buildPurgeFilter(
+  filters: PurgeFilters,
+  schema: DatabaseObjectResponse,
+  config: Config,
+  dateProperty?: string
+): QueryDatabaseParameters['filter'] {
+  const conditions: any[] = [];
+
+  if (filters.dateRange && dateProperty) {
+    conditions.push(
+      buildDaysFilter(dateProperty, filters.dateRange.start, filters.dateRange.end, config.timeZone)
+    );
+  }
+
+  if (filters.template) {
+    // Match either the template key or the title
+    const titleProperty = Object.values(schema.properties).find((prop) => prop.type === 'title');
+    const matches: any[] = [];
+    if (schema.properties[config.templateKeyProperty]?.type === 'rich_text') {
+      matches.push({
+        property: config.templateKeyProperty,
+        rich_text: { equals: filters.template },
+      });
+    }
+    if (titleProperty) {
+      matches.push({ property: titleProperty.name, title: { equals: filters.template } });
     }
+    conditions.push(matches.length === 1 ? matches[0] : { or: matches });
+  }
+
+  if (filters.runId) {
+    if (schema.properties[config.runIdProperty]?.type !== 'rich_text') {
+      throw new ConfigError(
+        `Cannot filter by run ID: the time blocks database has no text property "${config.runIdProperty}"`
+      );
+    }
+    conditions.push({ property: config.runIdProperty, rich_text: { equals: filters.runId } });
+  }
+
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
+
+/**
+ * Describe purge filters for display; empty when the purge is unfiltered
+ */
+function describeFilters(filters: PurgeFilters): string {
+  const parts: string[] = [];
+
+  if (filters.dateRange) {
+    const start = formatDate(filters.dateRange.start);
+    const end = formatDate(filters.dateRange.end);
+    parts.push(start === end ? `date ${start}` : `dates ${start} to ${end}`);
+  }
+  if (filters.template) {
+    parts.push(`template "${filters.template}"`);
+  }
+  if (filters.runId) {
+    parts.push(`run ${filters.runId}`);
   }
 
-  console.log(`\n✓ Purge complete: ${deleted} deleted, ${failed} failed`);
+  return parts.join(', ');
+}
+
+/**
+ * Describe the deletion of a page as a planned change
+ */
+function planDeletion(page: any): PlannedChange {
+  const dateProperty = getDatePropertyName(page.properties);
+  const date = dateProperty ? page.properties[dateProperty].date : null;
+
+  return {
+    action: 'delete',
+    title: extractTitle(page),
+    pageId: page.id,
+    start: date?.start || null,
+    end: date?.end || null,
+    errors: [],
+  };
+}
+
+/**
+ * Describe a deletion for the run report
+ */
+function toReportItem(change: PlannedChange, outcome: RunOutcome): RunReportItem {
+  return {
+    title: change.title,
+    ...(change.start ? { date: change.start.substring(0, 10) } : {}),
+    action: change.action,
+    outcome,
+    pageId: change.pageId,
+  };
 }
 
 /**
@@ -77,9 +284,3 @@ function extractTitle(page: any): string {
   return page.id.substring(0, 8) + '...';
 }
 
-/**
- * Simple delay utility
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
@@ -0,0 +1,397 @@
+import fs from 'fs/promises';
+import yaml from 'js-yaml';
+import { DatabaseObjectResponse, PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { Config, PushModeOptions, SavedTemplates, TemplateTimeBlock } from './types';
+import { readRecurrence } from './init-mode';
+import { toInstant } from './date-utils';
+import { READ_ONLY_TYPES } from './schema-validation';
+import { logger } from './logger';
+import { ConfigError, RunFailedError } from './errors';
+
+/**
+ * A change push mode makes to the templates database
+ */
+interface TemplateChange {
+  action: 'create' | 'update' | 'archive';
+  title: string;
+  template?: TemplateTimeBlock;
+  page?: PageObjectResponse;
+  properties?: Record<string, any>;
+  changed?: string[];  // Names of the properties an update changes
+  conflict?: string;  // Why the change may overwrite edits made in Notion
+}
+
+/**
+ * Push mode: Sync the local templates back to the templates database
+ * Templates are matched to pages by page ID: new templates are created,
+ * changed ones updated and pages without a local template archived.
+ * Pages edited in Notion after the templates were saved are conflicts,
+ * which stop the push unless options.force is set
+ */
+export async function runPushMode(
+  config: Config,
+  confirmed: boolean,
+  options: PushModeOptions
+): Promise<void> {
+  logger.info('Running push mode...');
+
+  if (!config.templatesDatabase) {
+    throw new ConfigError('Push needs a templates database. Set NOTION_TEMPLATES_DATABASE_ID');
+  }
+  logger.info(`Templates Database ID: ${config.templatesDatabase}`);
+
+  let savedTemplates: SavedTemplates;
+  try {
+    savedTemplates = yaml.load(await fs.readFile(config.templatesFilePath, 'utf-8')) as SavedTemplates;
+  } catch {
+    throw new ConfigError(`No templates to push. Run with --init first to create ${config.templatesFilePath}`);
+  }
+  logger.info(`Templates saved at: ${savedTemplates.savedAt}`);
+
+  const client = new NotionClientWrapper(config);
+
+  logger.info('\nFetching templates database...');
+  const schema = await client.getDatabaseSchema(config.templatesDatabase);
+  const pages = await client.getAllPages(config.templatesDatabase);
+  logger.info(`Found ${pages.length} template entries`);
+
+  const changes = diffTemplates(savedTemplates, pages, schema, config);
+  const missing = savedTemplates.templates.filter(
+    (template) => template.id && !pages.some((page) => page.id === template.id)
+  );
+
+  printChanges(changes, missing);
+
+  if (changes.length === 0) {
+    return;
+  }
+
+  const conflicts = changes.filter((change) => change.conflict).length;
+  if (conflicts > 0 && !options.force) {
+    logger.info(
+      `\n✗ ${conflicts} templates were edited in Notion since they were saved. ` +
+        'Run --init to pull those edits, or push with --force to overwrite them'
+    );
+    throw new ConfigError('Push aborted because of conflicts');
+  }
+
+  if (!confirmed) {
+    logger.info('\n   To apply these changes, run with: --push --confirm');
+    logger.info('\nAborting...');
+    return;
+  }
+
+  logger.info('\nPushing templates...');
+  let failed = 0;
+
+  // Creates are kept in order so new pages appear in the same order as the templates
+  for (const change of changes) {
+    try {
+      if (change.action === 'create') {
+        const page = await client.createPage(config.templatesDatabase, change.properties!);
+        change.template!.id = page.id;
+        logger.info(`  ✓ Created: ${change.title}`);
+      } else if (change.action === 'update') {
+        await client.updatePage(change.page!.id, change.properties!);
+        logger.info(`  ✓ Updated: ${change.title}`);
+      } else {
+        await client.deletePage(change.page!.id);
+        logger.info(`  ✓ Archived: ${change.title}`);
+      }
+    } catch (error) {
+      failed++;
+      logger.error(`  ✗ Failed to ${change.action} ${change.title}:`);
+      logger.error(`     Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Record the new page IDs. The templates are only in sync with Notion when every change
+  // went through; otherwise the old time keeps the failed ones showing up as changes
+  const savedAt = failed === 0 ? new Date().toISOString() : savedTemplates.savedAt;
+  await fs.writeFile(
+    config.templatesFilePath,
+    yaml.dump({ ...savedTemplates, savedAt }, { lineWidth: -1, noRefs: true }),
+    'utf-8'
+  );
+  logger.info(`\n✓ Templates saved to: ${config.templatesFilePath}`);
+
+  if (failed > 0) {
+    throw new RunFailedError(
+      `${failed} of ${changes.length} template changes failed`,
+      failed < changes.length
+    );
+  }
+
+  logger.info('\n✓ Push mode completed successfully!');
+}
+
+/**
+ * Work out the changes that make the templates database match the local templates
+ */
+function diffTemplates(
+  savedTemplates: SavedTemplates,
+  pages: PageObjectResponse[],
+  schema: DatabaseObjectResponse,
+  config: Config
+): TemplateChange[] {
+  const changes: TemplateChange[] = [];
+  const savedAt = new Date(savedTemplates.savedAt).getTime();
+  const pagesById = new Map(pages.map((page) => [page.id, page]));
+  const localIds = new Set(savedTemplates.templates.map((template) => template.id));
+
+  // A page edited after the templates were saved has edits the local file doesn't know about
+  const editedInNotion = (page: PageObjectResponse) =>
+    new Date(page.last_edited_time).getTime() > savedAt
+      ? `edited in Notion at ${page.last_edited_time}`
+      : undefined;
+
+  for (const template of savedTemplates.templates) {
+    const properties = toTemplatePayload(template, schema, config);
+
+    if (!template.id) {
+      changes.push({ action: 'create', title: template.title, template, properties });
+      continue;
+    }
+
+    const page = pagesById.get(template.id);
+    if (!page) {
+      // Reported separately; recreating it would give it a new ID
+      continue;
+    }
+
+    const current = toWritableProperties(page.properties, schema);
+    const changed = Object.keys(properties).filter(
+      (name) => !isSameValue(properties[name], current[name], config.timeZone)
+    );
+
+    if (changed.length > 0) {
+      changes.push({
+        action: 'update',
+        title: template.title,
+        template,
+        page,
+        properties: Object.fromEntries(changed.map((name) => [name, properties[name]])),
+        changed,
+        conflict: editedInNotion(page),
+      });
+    }
+  }
+
+  for (const page of pages) {
+    if (!localIds.has(page.id)) {
+      changes.push({
+        action: 'archive',
+        title: getPageTitle(page),
+        page,
+        conflict: editedInNotion(page),
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Print the changes a push makes, with conflicts and templates missing from Notion
+ */
+function printChanges(changes: TemplateChange[], missing: TemplateTimeBlock[]): void {
+  logger.info('');
+
+  if (changes.length === 0) {
+    logger.info('✓ Templates database already matches the local templates');
+  }
+
+  const markers = { create: '+', update: '~', archive: '-' };
+  const labels = { create: 'Create', update: 'Update', archive: 'Archive' };
+
+  for (const change of changes) {
+    const details = change.changed ? ` (${change.changed.join(', ')})` : '';
+    logger.info(`  ${markers[change.action]} ${labels[change.action]}: ${change.title}${details}`);
+    if (change.conflict) {
+      logger.info(`    ⚠ Conflict: ${change.conflict}`);
+    }
+  }
+
+  for (const template of missing) {
+    logger.warn(
+      `  ⚠ Warning: "${template.title}" is no longer in the templates database (${template.id}). ` +
+        'Remove its id to create it again'
+    );
+  }
+
+  if (changes.length > 0) {
+    const count = (action: TemplateChange['action']) =>
+      changes.filter((change) => change.action === action).length;
+    logger.info(
+      `\nPush: ${count('create')} create, ${count('update')} update, ${count('archive')} archive`
+    );
+  }
+}
+
+/**
+ * Build the properties payload for a local template
+ * The title, recurrence and day type fields of the template win over the raw properties,
+ * so either can be edited
+ */
+function toTemplatePayload(
+  template: TemplateTimeBlock,
+  schema: DatabaseObjectResponse,
+  config: Config
+): Record<string, any> {
+  const properties = toWritableProperties(template.properties, schema);
+
+  const titleProperty = Object.keys(schema.properties).find(
+    (name) => schema.properties[name].type === 'title'
+  );
+  if (titleProperty) {
+    const title = (properties[titleProperty]?.title || [])
+      .map((t: any) => t.text?.content ?? '')
+      .join('');
+    if (title !== template.title) {
+      properties[titleProperty] = { title: [textRun(template.title)] };
+    }
+  }
+
+  setListProperty(properties, template, schema, config.recurrenceProperty, template.recurrence || '');
+  setListProperty(properties, template, schema, config.dayTypeProperty, (template.dayTypes || []).join(', '));
+
+  return properties;
+}
+
+/**
+ * Write a recurrence rule or list of day types into its property, if it was edited locally
+ */
+function setListProperty(
+  properties: Record<string, any>,
+  template: TemplateTimeBlock,
+  schema: DatabaseObjectResponse,
+  name: string,
+  value: string
+): void {
+  // Rules and day types are case-insensitive, so "Workday" in Notion matches "workday" locally
+  const prop = schema.properties[name];
+  if (!prop || readRecurrence(template.properties[name]).toLowerCase() === value.toLowerCase()) {
+    return;
+  }
+
+  if (prop.type === 'rich_text') {
+    properties[name] = { rich_text: value ? [textRun(value)] : [] };
+  } else if (prop.type === 'select') {
+    properties[name] = { select: value ? { name: value } : null };
+  } else if (prop.type === 'multi_select') {
+    const names = value.split(',').map((option) => option.trim()).filter(Boolean);
+    properties[name] = { multi_select: names.map((option) => ({ name: option })) };
+  }
+}
+
+/**
+ * Convert page properties into a payload, in a normalized shape so payloads can be compared
+ * Read-only properties and properties the database doesn't have are left out
+ */
+function toWritableProperties(
+  properties: Record<string, any>,
+  schema: DatabaseObjectResponse
+): Record<string, any> {
+  const writable: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(properties)) {
+    const prop = schema.properties[name];
+    if (!value || !prop || prop.type !== value.type || READ_ONLY_TYPES.includes(value.type)) {
+      continue;
+    }
+
+    const data = value[value.type];
+    switch (value.type) {
+      case 'title':
+      case 'rich_text':
+        writable[name] = { [value.type]: (data || []).map(normalizeRichText) };
+        break;
+      case 'select':
+      case 'status':
+        writable[name] = { [value.type]: data ? { name: data.name } : null };
+        break;
+      case 'multi_select':
+        writable[name] = { multi_select: (data || []).map((option: any) => ({ name: option.name })) };
+        break;
+      case 'relation':
+      case 'people':
+        writable[name] = { [value.type]: (data || []).map((item: any) => ({ id: item.id })) };
+        break;
+      case 'date':
+        writable[name] = {
+          date: data ? { start: data.start, end: data.end ?? null, time_zone: data.time_zone ?? null } : null,
+        };
+        break;
+      default:
+        writable[name] = { [value.type]: data ?? null };
+    }
+  }
+
+  return writable;
+}
+
+/**
+ * Compare a local property value with the one in Notion
+ * Dates are compared by the instants they refer to: local templates keep wall clock
+ * times with a time zone, while Notion returns times with a UTC offset
+ */
+function isSameValue(local: any, remote: any, timeZone: string): boolean {
+  if (local?.date && remote?.date) {
+    const localZone = local.date.time_zone || timeZone;
+    const remoteZone = remote.date.time_zone || timeZone;
+    return (
+      isSameTime(local.date.start, localZone, remote.date.start, remoteZone) &&
+      isSameTime(local.date.end, localZone, remote.date.end, remoteZone)
+    );
+  }
+  return JSON.stringify(local) === JSON.stringify(remote);
+}
+
+/**
+ * Compare two Notion date strings; an all-day date never equals a time
+ */
+function isSameTime(
+  a: string | null | undefined,
+  aZone: string,
+  b: string | null | undefined,
+  bZone: string
+): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  if ((a.length === 10) !== (b.length === 10)) {
+    return false;
+  }
+  return a.length === 10 ? a === b : toInstant(a, aZone).getTime() === toInstant(b, bZone).getTime();
+}
+
+/**
+ * Keep the writable parts of a rich text run
+ */
+function normalizeRichText(run: any): any {
+  const normalized =
+    run.type === 'text'
+      ? { type: 'text', text: { content: run.text.content, link: run.text.link ?? null } }
+      : { type: run.type, [run.type]: run[run.type] };
+
+  return run.annotations ? { ...normalized, annotations: run.annotations } : normalized;
+}
+
+/**
+ * Build a plain text rich text run
+ */
+function textRun(content: string): any {
+  return { type: 'text', text: { content, link: null } };
+}
+
+/**
+ * Get the title of a page
+ */
+function getPageTitle(page: PageObjectResponse): string {
+  const titleProp = Object.values(page.properties).find((prop) => prop.type === 'title');
+  if (titleProp && titleProp.type === 'title' && titleProp.title.length > 0) {
+    return titleProp.title.map((t) => t.plain_text).join('');
+  }
+  return 'Untitled';
+}
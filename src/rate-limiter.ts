@@ -0,0 +1,89 @@
+/**
+ * Token bucket limiting how often requests may start
+ * Tokens refill continuously at `ratePerSecond`; up to `burst` can be saved up.
+ * Waiters are served in the order they called acquire()
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly burst: number = 1
+  ) {
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may start
+   */
+  acquire(): Promise<void> {
+    // Chain onto the previous waiter so tokens are handed out in order
+    const next = this.queue.then(() => this.take());
+    this.queue = next;
+    return next;
+  }
+
+  /**
+   * Hold off all requests for a while (e.g. after a 429 with Retry-After)
+   */
+  pause(ms: number): void {
+    this.refill();
+    // Going negative makes the next requests wait for the refill
+    this.tokens = Math.min(this.tokens, 0) - (ms / 1000) * this.ratePerSecond;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+
+    // Loop because pause() may have pushed the bucket back down while waiting
+    while (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.ratePerSecond) * 1000;
+      await delay(waitMs);
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Run an async function over items with at most `limit` running at once
+ * Results are returned in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Simple delay utility
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
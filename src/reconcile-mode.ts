@@ -0,0 +1,350 @@
+import { PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { Config, PlannedChange, ReconcileModeOptions, ReportFormat } from './types';
+import { formatDate, parseTargetDate, toInstant, todayInTimeZone } from './date-utils';
+import { buildDaysFilter, findDateProperty, findPageDay } from './existing-blocks';
+import { planTimeBlocks } from './scheduled-mode';
+import { logger } from './logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How a planned block turned out
+ * done: marked done (or over, when the database has no done property);
+ * open: not done yet; skipped: not done on a past day; missing: never created, or deleted
+ */
+type BlockStatus = 'done' | 'open' | 'skipped' | 'missing';
+
+/**
+ * A block the templates planned for a day, with the page created for it
+ */
+interface ReconciledBlock {
+  date: string;
+  title: string;
+  category: string;
+  status: BlockStatus;
+  pageId: string | null;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  actualStart: string | null;
+  actualEnd: string | null;
+  plannedHours: number;
+  actualHours: number;
+}
+
+/**
+ * Planned and completed hours of a day, a category or the whole range
+ */
+interface ReconcileSummary {
+  name: string;
+  blocks: number;
+  plannedHours: number;
+  completedHours: number;  // Actual hours of the blocks that were done
+  done: number;
+  open: number;
+  skipped: number;  // Including missing blocks
+}
+
+/**
+ * Reconcile mode: Compare the time blocks planned for a range of days with what happened
+ * The blocks the templates plan for each day are matched with the pages in the time
+ * blocks database. A page counts as done when its done property is checked (or set to
+ * a done status), and its actual times are the times it has now, which may have been
+ * edited. Prints planned and completed hours and skipped blocks per day and per category
+ */
+export async function runReconcileMode(
+  config: Config,
+  targetDates: Date[],
+  options: ReconcileModeOptions
+): Promise<void> {
+  logger.info('Running reconcile mode...');
+
+  // Existing pages are planned as updates, which keeps their page IDs in the plan
+  const plan = await planTimeBlocks(config, targetDates, {
+    onExisting: 'update',
+    onConflict: 'warn',
+    skipValidation: options.skipValidation,
+    dryRun: true,
+    format: 'table',
+    failFast: false,
+    rollback: false,
+  });
+
+  const client = new NotionClientWrapper(config);
+  const schema = await client.getDatabaseSchema(config.timeBlocksDatabase);
+  const property = findDateProperty(schema, config);
+
+  const firstDay = targetDates[0];
+  const lastDay = targetDates[targetDates.length - 1];
+
+  // The date filter also finds timed pages on the same UTC days, which are left out
+  logger.info('\nFetching time blocks...');
+  const filter = buildDaysFilter(property, firstDay, lastDay, config.timeZone);
+  const pages = (await client.getAllPages(config.timeBlocksDatabase, filter)).filter((page) =>
+    findPageDay(page, [property], firstDay, lastDay, config.timeZone)
+  );
+  logger.info(`Found ${pages.length} time blocks`);
+
+  const doneType = schema.properties[config.doneProperty]?.type;
+  const hasDoneProperty = doneType === 'checkbox' || doneType === 'status' || doneType === 'select';
+  if (!hasDoneProperty) {
+    logger.info(
+      `No checkbox, status or select property "${config.doneProperty}": ` +
+        'time blocks count as done once they are over'
+    );
+  }
+
+  const pagesById = new Map(pages.map((page) => [page.id, page]));
+  const blocks = plan.map((change) => {
+    const page = change.pageId ? pagesById.get(change.pageId) : undefined;
+    return reconcileBlock(change, page, property, hasDoneProperty, config);
+  });
+
+  const planned = new Set(plan.map((change) => change.pageId));
+  const unplanned = pages.filter((page) => !planned.has(page.id)).length;
+  if (unplanned > 0) {
+    logger.info(`${unplanned} time blocks weren't created from a template and are left out`);
+  }
+
+  logger.info('');
+  printReconcileReport(blocks, options.format);
+}
+
+/**
+ * Match a planned block with its page, and work out its status and hours
+ */
+function reconcileBlock(
+  change: PlannedChange,
+  page: PageObjectResponse | undefined,
+  dateProperty: string,
+  hasDoneProperty: boolean,
+  config: Config
+): ReconciledBlock {
+  const plannedDate = findPlannedDate(change);
+  const plannedZone = plannedDate?.time_zone || config.timeZone;
+
+  const actual = page?.properties[dateProperty];
+  const actualDate = actual?.type === 'date' ? actual.date : null;
+  const actualZone = actualDate?.time_zone || config.timeZone;
+
+  const day = change.date || formatDate(todayInTimeZone(config.timeZone));
+  let status: BlockStatus;
+  if (!page) {
+    status = 'missing';
+  } else if (hasDoneProperty) {
+    status = isDone(page.properties[config.doneProperty], config.doneValues)
+      ? 'done'
+      : parseTargetDate(day) < todayInTimeZone(config.timeZone)
+        ? 'skipped'
+        : 'open';
+  } else {
+    const actualEnd = actualDate?.end || actualDate?.start;
+    status = actualEnd && toInstant(actualEnd, actualZone) <= new Date() ? 'done' : 'open';
+  }
+
+  return {
+    date: day,
+    title: change.title,
+    category: readCategory((page?.properties ?? change.properties ?? {})[config.categoryProperty]),
+    status,
+    pageId: page?.id ?? null,
+    plannedStart: change.start,
+    plannedEnd: change.end,
+    actualStart: actualDate?.start ?? null,
+    actualEnd: actualDate?.end ?? null,
+    plannedHours: getHours(change.start, change.end, plannedZone),
+    actualHours: actualDate ? getHours(actualDate.start, actualDate.end, actualZone) : 0,
+  };
+}
+
+/**
+ * Get the date value of the planned payload holding the block's times
+ */
+function findPlannedDate(change: PlannedChange): { time_zone?: string | null } | null {
+  return (
+    Object.values(change.properties || {}).find((value) => value?.date?.start === change.start)?.date ?? null
+  );
+}
+
+/**
+ * Check a done property: a checked checkbox, or a status/select option counted as done
+ */
+function isDone(prop: any, doneValues: string[]): boolean {
+  if (prop?.type === 'checkbox') {
+    return prop.checkbox === true;
+  }
+  const name: string | undefined = prop?.[prop?.type]?.name;
+  return !!name && doneValues.some((value) => value.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Read the category of a block from a page property or a planned payload
+ */
+function readCategory(prop: any): string {
+  const value = prop?.select ?? prop?.status ?? prop?.multi_select?.[0];
+  if (value?.name) {
+    return value.name;
+  }
+  const text = prop?.rich_text ?? prop?.title;
+  const content = Array.isArray(text)
+    ? text.map((t: any) => t.plain_text ?? t.text?.content ?? '').join('').trim()
+    : '';
+  return content || '(none)';
+}
+
+/**
+ * Get the hours between a start and an end; all-day and open-ended blocks have none
+ */
+function getHours(start: string | null, end: string | null, timeZone: string): number {
+  if (!start || !end || start.length === 10) {
+    return 0;
+  }
+  return (toInstant(end, timeZone).getTime() - toInstant(start, timeZone).getTime()) / HOUR_MS;
+}
+
+/**
+ * Add up the blocks of each group, in the order the groups first appear
+ */
+function summarize(blocks: ReconciledBlock[], groupOf: (block: ReconciledBlock) => string): ReconcileSummary[] {
+  const summaries = new Map<string, ReconcileSummary>();
+
+  for (const block of blocks) {
+    const name = groupOf(block);
+    const summary = summaries.get(name) ?? emptySummary(name);
+
+    summary.blocks++;
+    summary.plannedHours += block.plannedHours;
+    if (block.status === 'done') {
+      summary.done++;
+      summary.completedHours += block.actualHours;
+    } else if (block.status === 'open') {
+      summary.open++;
+    } else {
+      summary.skipped++;
+    }
+    summaries.set(name, summary);
+  }
+
+  return [...summaries.values()];
+}
+
+/**
+ * A summary of no blocks
+ */
+function emptySummary(name: string): ReconcileSummary {
+  return { name, blocks: 0, plannedHours: 0, completedHours: 0, done: 0, open: 0, skipped: 0 };
+}
+
+/**
+ * Print the per-day and per-category summaries as tables, CSV or JSON
+ */
+function printReconcileReport(blocks: ReconciledBlock[], format: ReportFormat): void {
+  const days = summarize(blocks, (block) => block.date);
+  const categories = summarize(blocks, (block) => block.category).sort((a, b) => a.name.localeCompare(b.name));
+  const totals = summarize(blocks, () => 'Total')[0] ?? emptySummary('Total');
+
+  if (format === 'json') {
+    const round = (summary: ReconcileSummary) => ({
+      ...summary,
+      plannedHours: roundHours(summary.plannedHours),
+      completedHours: roundHours(summary.completedHours),
+    });
+    const output = {
+      days: days.map(round),
+      categories: categories.map(round),
+      total: round(totals),
+      blocks: blocks.map((block) => ({
+        ...block,
+        plannedHours: roundHours(block.plannedHours),
+        actualHours: roundHours(block.actualHours),
+      })),
+    };
+    process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+    return;
+  }
+
+  if (format === 'csv') {
+    const lines = ['group,name,blocks,planned_hours,completed_hours,done,open,skipped'];
+    const groups: [string, ReconcileSummary[]][] = [
+      ['day', days],
+      ['category', categories],
+      ['total', [totals]],
+    ];
+    for (const [group, summaries] of groups) {
+      for (const summary of summaries) {
+        lines.push(
+          [
+            group,
+            toCsvCell(summary.name),
+            summary.blocks,
+            roundHours(summary.plannedHours),
+            roundHours(summary.completedHours),
+            summary.done,
+            summary.open,
+            summary.skipped,
+          ].join(',')
+        );
+      }
+    }
+    process.stdout.write(lines.join('\n') + '\n');
+    return;
+  }
+
+  if (blocks.length === 0) {
+    print('No time blocks planned.');
+    return;
+  }
+
+  printSummaryTable('DAY', [...days, totals]);
+  print('');
+  printSummaryTable('CATEGORY', categories);
+}
+
+/**
+ * Write a line of the report to stdout
+ */
+function print(line: string): void {
+  process.stdout.write(line + '\n');
+}
+
+/**
+ * Print summaries as a table, with the kind of group as the first column's title
+ */
+function printSummaryTable(groupTitle: string, summaries: ReconcileSummary[]): void {
+  const header = [groupTitle, 'BLOCKS', 'PLANNED', 'COMPLETED', 'DONE', 'OPEN', 'SKIPPED'];
+  const rows = summaries.map((summary) => [
+    summary.name,
+    String(summary.blocks),
+    `${summary.plannedHours.toFixed(1)}h`,
+    `${summary.completedHours.toFixed(1)}h`,
+    String(summary.done),
+    String(summary.open),
+    String(summary.skipped),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  print(formatRow(header));
+  print(formatRow(widths.map((width) => '-'.repeat(width))));
+  for (const row of rows) {
+    print(formatRow(row));
+  }
+}
+
+/**
+ * Round hours to two decimals for CSV and JSON
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Quote a CSV cell if it contains a comma, quote or line break
+ */
+function toCsvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
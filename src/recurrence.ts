@@ -0,0 +1,363 @@
+/**
+ * Recurrence rules decide which target dates a template applies to.
+ *
+ * Supported forms (case-insensitive):
+ *   daily, every day                      every date (same as no rule)
+ *   weekdays, weekends                    Monday-Friday / Saturday-Sunday
+ *   Mon, Wed, Fri  (or Mon/Wed/Fri)       a set of weekdays
+ *   weekly, biweekly, monthly, yearly     same weekday / day as the template date
+ *   every 2 weeks [on Mon, Thu]           every N days/weeks/months/years
+ *   2nd Tue of the month, last Fri of month
+ *   RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE
+ *
+ * Intervals are counted from the template's own date, so "every 2 weeks"
+ * falls on the weeks where the template's sample date falls.
+ * The RRULE subset covers FREQ, INTERVAL, BYDAY (with ordinals such as 2TU
+ * or -1FR), BYMONTHDAY, BYMONTH and UNTIL.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: { weekday: number; nth?: number }[];  // weekday: 0 = Sunday; nth: 1..5 or -1 for last
+  byMonthDay: number[];  // negative values count from the end of the month
+  byMonth: number[];  // 1 = January
+  until?: Date;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  su: 0, sun: 0, sunday: 0,
+  mo: 1, mon: 1, monday: 1,
+  tu: 2, tue: 2, tues: 2, tuesday: 2,
+  we: 3, wed: 3, wednesday: 3,
+  th: 4, thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fr: 5, fri: 5, friday: 5,
+  sa: 6, sat: 6, saturday: 6,
+};
+
+const ORDINALS: Record<string, number> = {
+  '1st': 1, first: 1,
+  '2nd': 2, second: 2,
+  '3rd': 3, third: 3,
+  '4th': 4, fourth: 4,
+  '5th': 5, fifth: 5,
+  last: -1,
+};
+
+const FREQUENCY_UNITS: Record<string, RecurrenceFrequency> = {
+  day: 'daily', days: 'daily',
+  week: 'weekly', weeks: 'weekly',
+  month: 'monthly', months: 'monthly',
+  year: 'yearly', years: 'yearly',
+};
+
+/**
+ * Parse a recurrence rule
+ * Returns null for an empty rule, meaning the template applies to every date
+ */
+export function parseRecurrence(text: string | null | undefined): RecurrenceRule | null {
+  const normalized = (text || '').trim().toLowerCase();
+
+  if (!normalized || normalized === 'daily' || normalized === 'every day') {
+    return null;
+  }
+
+  if (normalized.startsWith('rrule:') || normalized.startsWith('freq=')) {
+    return parseRRule(text!.trim());
+  }
+
+  const rule = parseFriendlyRule(normalized);
+  if (!rule) {
+    throw new Error(`Invalid recurrence rule: "${text}"`);
+  }
+
+  return rule;
+}
+
+/**
+ * Check whether a date matches a recurrence rule
+ * The anchor is the template's own date, used to align intervals
+ */
+export function matchesRecurrence(
+  rule: RecurrenceRule | null,
+  date: Date,
+  anchor: Date | null
+): boolean {
+  if (!rule) {
+    return true;
+  }
+
+  const day = toUtcDay(date);
+  const anchorDay = anchor ? toUtcDay(anchor) : new Date(0);
+
+  if (rule.until && day.getTime() > toUtcDay(rule.until).getTime()) {
+    return false;
+  }
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  switch (rule.freq) {
+    case 'daily': {
+      const days = Math.round((day.getTime() - anchorDay.getTime()) / DAY_MS);
+      return isMultiple(days, rule.interval) && matchesWeekdays(rule, day);
+    }
+
+    case 'weekly': {
+      const weeks = Math.round((startOfWeek(day) - startOfWeek(anchorDay)) / (7 * DAY_MS));
+      if (!isMultiple(weeks, rule.interval)) {
+        return false;
+      }
+      return rule.byDay.length > 0
+        ? matchesWeekdays(rule, day)
+        : day.getUTCDay() === anchorDay.getUTCDay();
+    }
+
+    case 'monthly': {
+      const months =
+        (day.getUTCFullYear() - anchorDay.getUTCFullYear()) * 12 +
+        (day.getUTCMonth() - anchorDay.getUTCMonth());
+      return isMultiple(months, rule.interval) && matchesDayOfMonth(rule, day, anchorDay);
+    }
+
+    case 'yearly': {
+      const years = day.getUTCFullYear() - anchorDay.getUTCFullYear();
+      if (!isMultiple(years, rule.interval)) {
+        return false;
+      }
+      if (rule.byMonth.length === 0 && day.getUTCMonth() !== anchorDay.getUTCMonth()) {
+        return false;
+      }
+      return matchesDayOfMonth(rule, day, anchorDay);
+    }
+  }
+}
+
+/**
+ * Parse the human-friendly rule forms
+ */
+function parseFriendlyRule(text: string): RecurrenceRule | null {
+  const rule = (freq: RecurrenceFrequency, interval = 1): RecurrenceRule => ({
+    freq,
+    interval,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+  });
+
+  const keywords: Record<string, () => RecurrenceRule> = {
+    weekdays: () => ({ ...rule('weekly'), byDay: [1, 2, 3, 4, 5].map((weekday) => ({ weekday })) }),
+    weekends: () => ({ ...rule('weekly'), byDay: [6, 0].map((weekday) => ({ weekday })) }),
+    weekly: () => rule('weekly'),
+    biweekly: () => rule('weekly', 2),
+    monthly: () => rule('monthly'),
+    yearly: () => rule('yearly'),
+    annually: () => rule('yearly'),
+  };
+  if (text in keywords) {
+    return keywords[text]();
+  }
+
+  // "every 2 weeks", "every 3 days", "every other week on mon, thu"
+  const every = text.match(/^every\s+(\d+|other)?\s*(days?|weeks?|months?|years?)(?:\s+on\s+(.+))?$/);
+  if (every) {
+    const interval = every[1] === 'other' ? 2 : every[1] ? parseInt(every[1], 10) : 1;
+    if (interval < 1) {
+      return null;
+    }
+    const result = rule(FREQUENCY_UNITS[every[2]], interval);
+    if (every[3]) {
+      const weekdays = parseWeekdayList(every[3]);
+      if (!weekdays) {
+        return null;
+      }
+      result.byDay = weekdays.map((weekday) => ({ weekday }));
+    }
+    return result;
+  }
+
+  // "2nd tue of the month", "last friday of every month"
+  const nthWeekday = text.match(/^(\S+)\s+(\S+)\s+of\s+(?:the\s+|every\s+)?month$/);
+  if (nthWeekday) {
+    const nth = ORDINALS[nthWeekday[1]];
+    const weekday = WEEKDAY_NAMES[nthWeekday[2]];
+    if (nth === undefined || weekday === undefined) {
+      return null;
+    }
+    return { ...rule('monthly'), byDay: [{ weekday, nth }] };
+  }
+
+  // "mon, wed, fri", "mon/wed/fri"
+  const weekdays = parseWeekdayList(text);
+  if (weekdays) {
+    return { ...rule('weekly'), byDay: weekdays.map((weekday) => ({ weekday })) };
+  }
+
+  return null;
+}
+
+/**
+ * Parse the supported subset of an iCalendar RRULE
+ */
+function parseRRule(text: string): RecurrenceRule {
+  const body = text.replace(/^rrule:/i, '');
+  const rule: RecurrenceRule = { freq: 'daily', interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+  let hasFreq = false;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid recurrence rule "${text}": ${reason}`);
+  };
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [name, value] = part.split('=');
+    if (!value) {
+      fail(`malformed part "${part}"`);
+    }
+
+    switch (name.toUpperCase()) {
+      case 'FREQ': {
+        const freq = value.toLowerCase();
+        if (!['daily', 'weekly', 'monthly', 'yearly'].includes(freq)) {
+          fail(`unsupported FREQ "${value}"`);
+        }
+        rule.freq = freq as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      }
+
+      case 'INTERVAL':
+        rule.interval = parseInt(value, 10);
+        if (!(rule.interval >= 1)) {
+          fail(`invalid INTERVAL "${value}"`);
+        }
+        break;
+
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((entry) => {
+          const match = entry.trim().toLowerCase().match(/^([+-]?\d)?(su|mo|tu|we|th|fr|sa)$/);
+          if (!match) {
+            return fail(`invalid BYDAY "${entry}"`);
+          }
+          return {
+            weekday: WEEKDAY_NAMES[match[2]],
+            nth: match[1] ? parseInt(match[1], 10) : undefined,
+          };
+        });
+        break;
+
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map((entry) => {
+          const day = parseInt(entry, 10);
+          return day !== 0 && Math.abs(day) <= 31 ? day : fail(`invalid BYMONTHDAY "${entry}"`);
+        });
+        break;
+
+      case 'BYMONTH':
+        rule.byMonth = value.split(',').map((entry) => {
+          const month = parseInt(entry, 10);
+          return month >= 1 && month <= 12 ? month : fail(`invalid BYMONTH "${entry}"`);
+        });
+        break;
+
+      case 'UNTIL': {
+        // UNTIL is YYYYMMDD or YYYYMMDDTHHMMSSZ
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) {
+          fail(`invalid UNTIL "${value}"`);
+        }
+        rule.until = new Date(Date.UTC(+match![1], +match![2] - 1, +match![3]));
+        break;
+      }
+
+      default:
+        fail(`unsupported part "${name}"`);
+    }
+  }
+
+  if (!hasFreq) {
+    fail('FREQ is required');
+  }
+
+  return rule;
+}
+
+/**
+ * Parse a list of weekday names separated by commas, slashes or spaces
+ */
+function parseWeekdayList(text: string): number[] | null {
+  const names = text.split(/[\s,/&]+/).filter((name) => name && name !== 'and');
+  const weekdays = names.map((name) => WEEKDAY_NAMES[name]);
+
+  if (names.length === 0 || weekdays.some((weekday) => weekday === undefined)) {
+    return null;
+  }
+
+  return weekdays;
+}
+
+/**
+ * Check the BYDAY weekdays of a rule (ignoring ordinals); an empty list matches any day
+ */
+function matchesWeekdays(rule: RecurrenceRule, day: Date): boolean {
+  return rule.byDay.length === 0 || rule.byDay.some((entry) => entry.weekday === day.getUTCDay());
+}
+
+/**
+ * Check the day-of-month constraints of a monthly or yearly rule
+ * Without BYDAY or BYMONTHDAY the day must match the anchor's day of month
+ */
+function matchesDayOfMonth(rule: RecurrenceRule, day: Date, anchorDay: Date): boolean {
+  const dayOfMonth = day.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+
+  if (rule.byMonthDay.length > 0) {
+    const matchesMonthDay = rule.byMonthDay.some((entry) =>
+      entry > 0 ? entry === dayOfMonth : daysInMonth + entry + 1 === dayOfMonth
+    );
+    if (!matchesMonthDay) {
+      return false;
+    }
+  }
+
+  if (rule.byDay.length > 0) {
+    return rule.byDay.some((entry) => {
+      if (entry.weekday !== day.getUTCDay()) {
+        return false;
+      }
+      if (entry.nth === undefined) {
+        return true;
+      }
+      return entry.nth > 0
+        ? Math.ceil(dayOfMonth / 7) === entry.nth
+        : Math.ceil((daysInMonth - dayOfMonth + 1) / 7) === -entry.nth;
+    });
+  }
+
+  return rule.byMonthDay.length > 0 || dayOfMonth === anchorDay.getUTCDate();
+}
+
+/**
+ * Check that a count of periods is a multiple of the interval (also before the anchor)
+ */
+function isMultiple(count: number, interval: number): boolean {
+  return ((count % interval) + interval) % interval === 0;
+}
+
+/**
+ * Get the UTC midnight of the Monday starting a date's week
+ */
+function startOfWeek(day: Date): number {
+  return day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/**
+ * Strip the time from a date, keeping its UTC calendar day
+ */
+function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
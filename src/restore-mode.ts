@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import { NotionClientWrapper } from './notion-client';
+import { Config, SavedPurge } from './types';
+import { logger } from './logger';
+import { RunFailedError } from './errors';
+
+/**
+ * Restore mode: Un-archive the time blocks deleted by the last purge
+ */
+export async function runRestoreMode(config: Config): Promise<void> {
+  logger.info('Running restore mode...');
+  logger.info(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+
+  let savedPurge: SavedPurge;
+  try {
+    const content = await fs.readFile(config.lastPurgeFilePath, 'utf-8');
+    savedPurge = JSON.parse(content) as SavedPurge;
+  } catch {
+    logger.info('\nNo purge to restore. Nothing was deleted since the last restore.');
+    return;
+  }
+
+  logger.info(`\nLast purge: ${savedPurge.purgedAt} (${savedPurge.filters})`);
+  logger.info(`Restoring ${savedPurge.pageIds.length} time blocks...`);
+
+  const client = new NotionClientWrapper(config);
+  const failedPageIds: string[] = [];
+
+  // Restores are independent, so several run at once (within the rate limit)
+  await client.forEachConcurrently(savedPurge.pageIds, async (pageId) => {
+    try {
+      await client.restorePage(pageId);
+      logger.info(`  ✓ Restored: ${pageId}`);
+    } catch (error) {
+      failedPageIds.push(pageId);
+      logger.error(`  ✗ Failed to restore page ${pageId}:`);
+      logger.error(`     Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  const restored = savedPurge.pageIds.length - failedPageIds.length;
+  logger.info(`\n✓ Restore complete: ${restored} restored, ${failedPageIds.length} failed`);
+
+  // Keep the pages that failed so the restore can be retried
+  if (failedPageIds.length > 0) {
+    await fs.writeFile(
+      config.lastPurgeFilePath,
+      JSON.stringify({ ...savedPurge, pageIds: failedPageIds }, null, 2),
+      'utf-8'
+    );
+    throw new RunFailedError(
+      `${failedPageIds.length} of ${savedPurge.pageIds.length} time blocks could not be restored; ` +
+        'run --restore again to retry them',
+      restored > 0
+    );
+  }
+
+  await fs.unlink(config.lastPurgeFilePath);
+}
+
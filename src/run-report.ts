@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import { Config, RunOutcome, RunReport } from './types';
+import { logger } from './logger';
+import { RunFailedError } from './errors';
+
+/**
+ * Start the report of a scheduled or purge run
+ */
+export function startRunReport(
+  mode: RunReport['mode'],
+  config: Config,
+  dryRun: boolean,
+  runId?: string
+): RunReport {
+  return {
+    mode,
+    ...(config.profile ? { profile: config.profile } : {}),
+    ...(runId ? { runId } : {}),
+    dryRun,
+    startedAt: new Date().toISOString(),
+    status: 'success',
+    summary: {},
+    items: [],
+  };
+}
+
+/**
+ * Finish a run report and write it to the configured report file, if any
+ * Pass the error that ended the run, so a failed run still leaves a report
+ */
+export async function writeRunReport(report: RunReport, config: Config, error?: unknown): Promise<void> {
+  report.finishedAt = new Date().toISOString();
+
+  const summary: Partial<Record<RunOutcome, number>> = {};
+  for (const item of report.items) {
+    summary[item.outcome] = (summary[item.outcome] || 0) + 1;
+  }
+  report.summary = summary;
+
+  if (error !== undefined) {
+    report.status = error instanceof RunFailedError && error.partial ? 'partial' : 'failed';
+    report.error = error instanceof Error ? error.message : String(error);
+  }
+
+  logger.debug(`Run ${report.status}`, { event: 'run.finished', mode: report.mode, summary });
+
+  if (!config.reportFilePath) {
+    return;
+  }
+
+  try {
+    await fs.writeFile(config.reportFilePath, JSON.stringify(report, null, 2), 'utf-8');
+    logger.info(`Run report saved to: ${config.reportFilePath}`);
+  } catch (writeError) {
+    // The run itself is done; a missing report shouldn't hide its outcome
+    logger.warn(`⚠ Warning: Could not write the run report: ${(writeError as Error).message}`);
+  }
+}
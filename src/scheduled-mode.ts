@@ -1,85 +1,994 @@
 import fs from 'fs/promises';
 import yaml from 'js-yaml';
+import { DatabaseObjectResponse } from '@notionhq/client/build/src/api-endpoints';
 import { NotionClientWrapper } from './notion-client';
-import { Config, SavedTemplates } from './types';
-import { combineDateTime, formatDate, formatDateTime } from './date-utils';
+import {
+  Config,
+  ConflictPolicy,
+  CreatedParentPage,
+  PlannedChange,
+  RunOutcome,
+  RunReport,
+  RunReportItem,
+  SavedSchema,
+  SavedTemplates,
+  ScheduledModeOptions,
+  TemplateBlock,
+  TemplateTimeBlock,
+} from './types';
+import {
+  addDays,
+  calendarDaysBetween,
+  combineDateTime,
+  formatDate,
+  formatDateTime,
+  formatWallClock,
+  instantToWallClock,
+  todayInTimeZone,
+  toInstant,
+  toWallClock,
+  WallClockTime,
+  wallClockToInstant,
+} from './date-utils';
+import {
+  ExistingBlockIndex,
+  findCreatedBlock,
+  findExistingBlock,
+  getDatePropertyName,
+  getTemplateKey,
+  loadExistingBlocks,
+  generateRunId,
+  withTrackingProperties,
+} from './existing-blocks';
+import { loadSavedSchema, validatePayload } from './payload-validation';
+import { loadLocalTemplates } from './local-templates';
+import {
+  checkTimeBlocksSchema,
+  countSchemaErrors,
+  mapPropertyNames,
+  mapSchema,
+  printSchemaIssues,
+} from './schema-validation';
+import { printPlan } from './plan-output';
+import { matchesRecurrence, parseRecurrence, RecurrenceRule } from './recurrence';
+import { findHoliday, getDayType, HolidayCalendar, loadHolidayCalendar, matchesDayType, parseDayTypes } from './holidays';
+import { appendPageContent, shiftContentDates } from './page-content';
+import {
+  BusySlot,
+  describeConflict,
+  findBusySlots,
+  formatSpan,
+  resolveConflict,
+  TimeSpan,
+} from './conflicts';
+import { packBlocks, PackRequest } from './packing';
+import {
+  expandPlaceholders,
+  expandPropertyPlaceholders,
+  findUnknownPlaceholders,
+  PlaceholderContext,
+} from './placeholders';
+import {
+  findReferenceDate,
+  formatOffsetTime,
+  getOffsetReference,
+  OffsetSpan,
+  placeOffsetSpan,
+  resolveOffsets,
+} from './offsets';
+import { applyPropertyRules, CompiledRule, getRuleProperties, loadPropertyRules } from './property-rules';
+import { findOrCreateParentPage, loadParentLinks, ParentLink } from './parent-pages';
+import { logger } from './logger';
+import { startRunReport, writeRunReport } from './run-report';
+import { ConfigError, RunFailedError, ValidationError } from './errors';
 
 /**
- * Scheduled mode: Create time blocks for a specific date
+ * Summary of the blocks written for one target date
  */
-export async function runScheduledMode(config: Config, targetDate: Date): Promise<void> {
-  console.log('Running scheduled mode...');
+interface DaySummary {
+  date: Date;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  items: RunReportItem[];
+  parentPages: CreatedParentPage[];
+}
+
+/**
+ * A planned change for one template on one date, with the template it came from
+ */
+interface PlannedBlock extends PlannedChange {
+  template: TemplateTimeBlock;
+  content?: TemplateBlock[];
+  dateProperty?: string;  // Name of the date property in the time blocks database
+}
+
+/**
+ * Templates and schemas loaded once per scheduled run
+ */
+interface ScheduledRun {
+  client: NotionClientWrapper;
+  runId: string;
+  templates: TemplateTimeBlock[];  // Sorted by start time
+  referenceDate: Date | null;  // Day zero of the templates without an offset
+  offsets: Map<TemplateTimeBlock, OffsetSpan>;
+  recurrenceRules: Map<TemplateTimeBlock, RecurrenceRule | null>;
+  propertyRules: CompiledRule[];
+  parentLinks: ParentLink[];
+  holidays: HolidayCalendar;
+  saved: SavedSchema;
+  target: DatabaseObjectResponse;
+}
+
+/**
+ * Scheduled mode: Create time blocks for one or more target dates
+ * Templates are loaded once and applied to each date in turn.
+ * Blocks that already exist for a date are skipped, updated or recreated
+ * according to options.onExisting, so re-running for the same date is safe.
+ * The time blocks database schema is checked against the saved templates schema
+ * first. With options.dryRun, the planned changes are validated against the
+ * saved schema and printed instead of being written
+ */
+export async function runScheduledMode(
+  config: Config,
+  targetDates: Date[],
+  options: ScheduledModeOptions
+): Promise<void> {
+  // Tag the blocks written by this run so they can be purged together
+  const runId = generateRunId();
+  const report = startRunReport('scheduled', config, options.dryRun, runId);
+
+  try {
+    await createTimeBlocks(config, targetDates, options, report);
+  } catch (error) {
+    let failure = error;
+    const created =
+      report.items.some((item) => item.outcome === 'created') || (report.parentPages?.length ?? 0) > 0;
+    if (options.rollback && created) {
+      if (await rollBackRun(config, report)) {
+        // Nothing the run created is left, so it failed as a whole
+        const message = error instanceof Error ? error.message : String(error);
+        failure = new RunFailedError(`${message}; the time blocks created were archived (--rollback)`, false);
+      }
+    }
+    await writeRunReport(report, config, failure);
+    throw failure;
+  }
+  await writeRunReport(report, config);
+}
+
+/**
+ * Plan and write the time blocks of each target date, recording each block in the report
+ */
+async function createTimeBlocks(
+  config: Config,
+  targetDates: Date[],
+  options: ScheduledModeOptions,
+  report: RunReport
+): Promise<void> {
+  const runId = report.runId!;
+  logger.info(options.dryRun ? 'Running scheduled mode (dry run)...' : 'Running scheduled mode...');
+
+  if (targetDates.length === 1) {
+    logger.info(`Target date: ${formatDateDisplay(targetDates[0], config.timeZone)}`);
+  } else {
+    logger.info(
+      `Target dates: ${formatDateDisplay(targetDates[0], config.timeZone)} to ` +
+        `${formatDateDisplay(targetDates[targetDates.length - 1], config.timeZone)} (${targetDates.length} days)`
+    );
+  }
+  logger.info(`Time zone: ${config.timeZone}`);
+  logger.info(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+
+  logger.info(`Run ID: ${runId}`, { runId });
+
+  const run = await prepareRun(config, options, runId);
+
+  // A dry run checks every payload against the schema saved by init mode
+  const schema = options.dryRun ? mapSchema(run.saved, config.propertyMap) : null;
+
+  const summaries: DaySummary[] = [];
+  const plan: PlannedBlock[] = [];
+
+  for (const targetDate of targetDates) {
+    if (targetDates.length > 1) {
+      logger.info(`\n=== ${formatDateDisplay(targetDate, config.timeZone)} ===`);
+    }
+
+    const blocks = await planDate(run, config, targetDate, options);
+
+    if (schema) {
+      for (const block of blocks) {
+        if (block.properties) {
+          // The tracking properties and those set by rules may exist only in the time blocks database
+          block.errors.push(
+            ...validatePayload(block.properties, schema, [
+              config.templateKeyProperty,
+              config.runIdProperty,
+              ...getRuleProperties(run.propertyRules),
+              ...run.parentLinks.map((link) => link.relationProperty),
+            ])
+          );
+        }
+      }
+      plan.push(...blocks);
+      continue;
+    }
+
+    const summary = await applyPlannedBlocks(run, config, blocks, targetDate, options.failFast);
+    summaries.push(summary);
+    report.items.push(...summary.items);
+    if (summary.parentPages.length > 0) {
+      report.parentPages = [...(report.parentPages ?? []), ...summary.parentPages];
+    }
+
+    if (options.failFast && summary.failed > 0) {
+      break;
+    }
+  }
+
+  if (options.dryRun) {
+    report.items.push(
+      ...plan.map((block) => toReportItem(block, block.errors.length > 0 ? 'failed' : 'planned'))
+    );
+
+    logger.info('');
+    printPlan(plan, options.format, config.timeZone);
+
+    const invalid = plan.filter((change) => change.errors.length > 0).length;
+    if (invalid > 0) {
+      throw new ValidationError(`${invalid} planned changes are invalid; nothing was written`);
+    }
+    return;
+  }
+
+  if (summaries.length > 1) {
+    logOverallSummary(summaries);
+  }
+
+  const failed = summaries.reduce((sum, summary) => sum + summary.failed, 0);
+  if (failed > 0) {
+    const written = summaries.reduce((sum, summary) => sum + summary.created + summary.updated, 0);
+    const total = summaries.reduce((sum, summary) => sum + summary.total, 0);
+    throw new RunFailedError(
+      options.failFast
+        ? `A time block failed; stopped after ${written} of ${total} time blocks were written (--fail-fast)`
+        : `${failed} of ${total} time blocks failed`,
+      written > 0
+    );
+  }
+}
+
+/**
+ * Plan the time blocks of each target date without writing anything,
+ * the same way scheduled mode would for the same options
+ */
+export async function planTimeBlocks(
+  config: Config,
+  targetDates: Date[],
+  options: ScheduledModeOptions
+): Promise<PlannedChange[]> {
+  const run = await prepareRun(config, options, generateRunId());
+  const plan: PlannedChange[] = [];
 
-  const today = new Date();
-  const isToday = formatDate(targetDate) === formatDate(today);
-  const dateDisplay = isToday ? `${formatDate(targetDate)} (today)` : formatDate(targetDate);
+  for (const targetDate of targetDates) {
+    logger.info(`\n=== ${formatDateDisplay(targetDate, config.timeZone)} ===`);
+    plan.push(...(await planDate(run, config, targetDate, options)));
+  }
 
-  console.log(`Target date: ${dateDisplay}`);
-  console.log(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+  return plan;
+}
 
+/**
+ * Load and check the templates, and check the time blocks database schema
+ */
+async function prepareRun(
+  config: Config,
+  options: ScheduledModeOptions,
+  runId: string
+): Promise<ScheduledRun> {
   // Load templates
-  console.log('\nLoading templates...');
-  const templatesContent = await fs.readFile(config.templatesFilePath, 'utf-8');
-  const savedTemplates = yaml.load(templatesContent) as SavedTemplates;
+  logger.info('\nLoading templates...');
+  const templates = await loadTemplates(config);
 
-  if (!savedTemplates.templates || savedTemplates.templates.length === 0) {
-    throw new Error('No templates found. Run with --init first to create templates.');
+  if (templates.length === 0) {
+    throw new ConfigError('No templates found. Run with --init first to create templates.');
   }
 
-  console.log(`Found ${savedTemplates.templates.length} templates`);
+  logger.info(`Found ${templates.length} templates`);
 
-  // Find the reference date (earliest date across all templates)
-  const referenceDate = findReferenceDate(savedTemplates.templates);
+  // Templates with an offset say where their block goes; the others count days
+  // from the reference date (the earliest date across all templates)
+  const offsets = resolveOffsets(templates);
+  const unmigrated = templates.filter((template) => !template.offset).length;
+  const referenceDate = unmigrated > 0 ? findReferenceDate(templates, config.timeZone) : null;
   if (referenceDate) {
-    console.log(`Reference date: ${formatDate(referenceDate)}`);
+    logger.info(`Reference date: ${formatDate(referenceDate)}`);
+  }
+  if (unmigrated > 0 && !config.localTemplatesFilePath) {
+    logger.info(
+      `${unmigrated} templates have no offset and are placed relative to the reference date ` +
+        '(run with --migrate-offsets to give them one)'
+    );
   }
 
   // Sort templates by start time (ascending order)
-  const sortedTemplates = sortTemplatesByStartTime(savedTemplates.templates);
-  console.log('Templates sorted by start time');
+  const sortedTemplates = sortTemplatesByStartTime(templates, config.timeZone, offsets, referenceDate);
+  logger.info('Templates sorted by start time');
+
+  // Parse recurrence rules up front so an invalid rule fails the run before anything is created
+  const recurrenceRules = parseRecurrenceRules(sortedTemplates);
+
+  // Same for placeholders, which are otherwise only expanded per block
+  checkPlaceholders(sortedTemplates, config.templateVars);
+  checkDayTypes(sortedTemplates);
+  checkTemplateKeys(sortedTemplates);
+
+  const holidays = await loadHolidayCalendar(config.holidayCalendars);
+  if (config.holidayCalendars.length > 0) {
+    logger.info(`Holiday calendars: ${config.holidayCalendars.join(', ')}`);
+  }
 
   const client = new NotionClientWrapper(config);
 
+  // Check the time blocks database can take the template properties before writing anything
+  logger.info('\nValidating time blocks database schema...');
+  const { saved, target, issues } = await checkTimeBlocksSchema(client, config);
+  printSchemaIssues(issues);
+  if (countSchemaErrors(issues) > 0) {
+    if (!options.skipValidation) {
+      throw new ValidationError(
+        'Time blocks database schema does not match the templates. ' +
+          'Run with --validate for details, set NOTION_PROPERTY_MAP, or use --skip-validation'
+      );
+    }
+    logger.warn('  ⚠ Continuing despite schema errors (--skip-validation)');
+  }
+
+  let propertyRules: CompiledRule[] = [];
+  if (config.rulesFilePath) {
+    propertyRules = await loadPropertyRules(config.rulesFilePath, target, config.templateVars);
+    logger.info(`${propertyRules.length} property rules from ${config.rulesFilePath}`);
+  }
+  warnDroppedProperties(sortedTemplates, config, getRuleProperties(propertyRules));
+
+  const parentLinks = await loadParentLinks(client, config, target);
+
+  return {
+    client,
+    runId,
+    templates: sortedTemplates,
+    referenceDate,
+    offsets,
+    recurrenceRules,
+    propertyRules,
+    parentLinks,
+    holidays,
+    saved,
+    target,
+  };
+}
+
+/**
+ * Pick the templates that apply on a target date and plan their blocks
+ */
+async function planDate(
+  run: ScheduledRun,
+  config: Config,
+  targetDate: Date,
+  options: ScheduledModeOptions
+): Promise<PlannedBlock[]> {
+  const holiday = findHoliday(run.holidays, targetDate);
+  const dayType = getDayType(targetDate, holiday);
+  logger.info(`Day type: ${dayType}${holiday ? ` (${holiday.name})` : ''}`);
+
+  // Drop templates whose recurrence rule or day types don't fall on this date
+  const dueTemplates = run.templates.filter(
+    (template) =>
+      matchesRecurrence(run.recurrenceRules.get(template)!, targetDate, getTemplateAnchorDate(template)) &&
+      matchesDayType(template.dayTypes, dayType)
+  );
+  if (dueTemplates.length < run.templates.length) {
+    logger.info(
+      `${dueTemplates.length} of ${run.templates.length} templates apply on ${formatDate(targetDate)}`
+    );
+  }
+  if (holiday && dueTemplates.length === 0) {
+    logger.info(`✓ Skipping ${formatDate(targetDate)}: ${holiday.name} has no holiday templates`);
+  }
+
+  const blocks = await planBlocksForDate(
+    run.client,
+    config,
+    run.target,
+    dueTemplates,
+    targetDate,
+    run.referenceDate,
+    run.offsets,
+    run.propertyRules,
+    run.runId,
+    options
+  );
+
+  // A dry run shows the day (and week) pages it would link to or create.
+  // A real run only creates them once a block is about to be written
+  if (options.dryRun && blocks.some((block) => block.action !== 'skip' && block.properties)) {
+    for (const link of run.parentLinks) {
+      const { pageId } = await findOrCreateParentPage(run.client, link, targetDate, config.templateVars, true);
+      for (const block of blocks) {
+        if (pageId && block.action !== 'skip' && block.properties) {
+          block.properties[link.relationProperty] = { relation: [{ id: pageId }] };
+        }
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Work out what to do with each template on a single target date
+ * Only the templates whose recurrence rule matches the date are passed in
+ */
+async function planBlocksForDate(
+  client: NotionClientWrapper,
+  config: Config,
+  targetSchema: DatabaseObjectResponse,
+  sortedTemplates: TemplateTimeBlock[],
+  targetDate: Date,
+  referenceDate: Date | null,
+  offsets: Map<TemplateTimeBlock, OffsetSpan>,
+  propertyRules: CompiledRule[],
+  runId: string,
+  options: ScheduledModeOptions
+): Promise<PlannedBlock[]> {
+  // Find blocks already created for this date so re-runs don't duplicate them,
+  // including those on later days, on the day each template places its block
+  const blockDays = new Map(
+    sortedTemplates.map((template) => [
+      template,
+      getTemplateDayOffset(template, offsets.get(template), referenceDate, config.timeZone),
+    ])
+  );
+  logger.info('\nChecking for existing time blocks...');
+  const existingBlocks = await loadExistingBlocks(
+    client,
+    config,
+    targetSchema,
+    sortedTemplates,
+    targetDate,
+    Math.max(0, ...blockDays.values())
+  );
+
+  const blocks = sortedTemplates.map((template, index) => {
+    const placeholders: PlaceholderContext = {
+      targetDate,
+      templateIndex: index + 1,
+      variables: config.templateVars,
+    };
+    const title = expandPlaceholders(template.title, placeholders);
+
+    // Without a template key property, blocks are matched by their generated title
+    const existing = findExistingBlock(
+      existingBlocks,
+      { ...template, title },
+      formatDate(addDays(targetDate, blockDays.get(template)!))
+    );
+    const planned: PlannedBlock = {
+      action: existing ? options.onExisting : 'create',
+      title,
+      templateKey: getTemplateKey(template),
+      date: formatDate(targetDate),
+      pageId: existing?.id,
+      start: null,
+      end: null,
+      errors: [],
+      template,
+    };
+
+    if (planned.action === 'skip') {
+      return planned;
+    }
+
+    // The other dates of a template with an offset count from the day it places the block on
+    const span = offsets.get(template);
+    const templateReference = span ? getOffsetReference(template, span, config.timeZone) : referenceDate;
+
+    try {
+      planned.properties = withTrackingProperties(
+        applyPropertyRules(
+          mapPropertyNames(
+            updatePropertiesForDate(
+              template.properties,
+              targetDate,
+              templateReference,
+              config.timeZone,
+              placeholders,
+              [config.recurrenceProperty, config.dayTypeProperty],
+              span
+            ),
+            config.propertyMap
+          ),
+          propertyRules,
+          { template, targetDate, timeZone: config.timeZone, placeholders }
+        ),
+        existingBlocks,
+        config,
+        template,
+        runId
+      );
+
+      const dateProperty = getDatePropertyName(template.properties);
+      planned.dateProperty = dateProperty
+        ? config.propertyMap[dateProperty] || dateProperty
+        : undefined;
+      const date = planned.dateProperty ? planned.properties[planned.dateProperty]?.date : null;
+      planned.start = date?.start || null;
+      planned.end = date?.end || null;
+
+      if (template.content && planned.action !== 'update') {
+        planned.content = shiftContentDates(
+          template.content,
+          (value, zone) => shiftTemplateDate(value, targetDate, templateReference, zone),
+          config.timeZone
+        );
+      }
+    } catch (error) {
+      planned.errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    return planned;
+  });
+  logger.info(
+    `Found ${blocks.filter((block) => block.pageId).length} existing time blocks (policy: ${options.onExisting})`
+  );
+
+  // A template's own existing block is replaced or kept, so it isn't in the way
+  const ownPages = new Set(blocks.map((block) => block.pageId).filter(Boolean));
+  const busy = findBusySlots(
+    existingBlocks.allPages.filter((page) => !ownPages.has(page.id)),
+    existingBlocks.dateProperties,
+    config.timeZone
+  );
+
+  const fixed = blocks.filter((block) => !block.template.flexible);
+  const flexible = blocks.filter((block) => block.template.flexible);
+
+  resolveConflicts(fixed, busy, config, options.onConflict);
+
+  if (flexible.length > 0) {
+    // Kept blocks of flexible templates stay where they are, so the others fit around them
+    const kept = findBusySlots(
+      flexible.filter((block) => block.action === 'skip' && block.pageId).map((block) =>
+        existingBlocks.allPages.find((page) => page.id === block.pageId)!
+      ),
+      existingBlocks.dateProperties,
+      config.timeZone
+    );
+    const fixedSpans = fixed.map((block) => getBlockSpan(block, config)?.span).filter(Boolean) as TimeSpan[];
+    placeFlexibleBlocks(flexible, [...busy, ...kept, ...fixedSpans], config);
+  }
+
+  return blocks;
+}
+
+/**
+ * Check the planned blocks against the other pages on the date, such as meetings
+ * or blocks added by hand, and apply the conflict policy to those that overlap.
+ * Blocks created from the templates are allowed to overlap each other
+ */
+function resolveConflicts(
+  blocks: PlannedBlock[],
+  busy: BusySlot[],
+  config: Config,
+  policy: ConflictPolicy
+): void {
+  if (busy.length === 0) {
+    return;
+  }
+
+  const spans = new Map<PlannedBlock, TimeSpan>();
+  for (const block of blocks) {
+    const timed = getBlockSpan(block, config);
+    if (timed) {
+      spans.set(block, timed.span);
+    }
+  }
+
+  const adjusted: PlannedBlock[] = [];
+
+  for (const [block, span] of spans) {
+    const zone = getBlockSpan(block, config)!.zone;
+    const taken = [...spans].filter(([other]) => other !== block).map(([, other]) => other);
+
+    const resolution = resolveConflict(span, busy, taken, policy, zone);
+    if (!resolution) {
+      continue;
+    }
+
+    block.conflict = describeConflict(resolution, zone);
+    adjusted.push(block);
+
+    if (resolution.outcome === 'skipped') {
+      block.action = 'skip';
+      spans.delete(block);
+    } else if (resolution.span) {
+      // Later blocks have to avoid the block's new span, not its old one
+      spans.set(block, resolution.span);
+      setBlockSpan(block, resolution.span, zone);
+    }
+  }
+
+  if (adjusted.length > 0) {
+    logger.info(`\nConflicts with existing pages (policy: ${policy}):`);
+    for (const block of adjusted) {
+      logger.warn(`  ⚠ ${block.title}: ${block.conflict}`);
+    }
+  }
+}
+
+/**
+ * Pack the blocks of flexible templates into the free time of their windows
+ * Windows are on the calendar day the template's date falls on
+ */
+function placeFlexibleBlocks(blocks: PlannedBlock[], busy: TimeSpan[], config: Config): void {
+  const requests: PackRequest<PlannedBlock>[] = [];
+
+  for (const block of blocks) {
+    const timed = getBlockSpan(block, config);
+    if (!timed) {
+      if (block.action !== 'skip' && block.errors.length === 0) {
+        block.errors.push('A flexible template needs a date property with a start and end time');
+      }
+      continue;
+    }
+
+    const spec = block.template.flexible!;
+    const day = toWallClock(block.properties![block.dateProperty!].date.start, timed.zone);
+    requests.push({
+      item: block,
+      duration: spec.duration * 60 * 1000,
+      priority: spec.priority,
+      window: {
+        start: wallClockAt(day, spec.window.start, timed.zone),
+        end: wallClockAt(day, spec.window.end, timed.zone),
+      },
+    });
+  }
+
+  const placed = packBlocks(requests, busy);
+
+  logger.info(`\nFlexible blocks: ${placed.size} of ${requests.length} placed`);
+  for (const { item: block, window } of requests) {
+    const zone = getBlockSpan(block, config)!.zone;
+    const span = placed.get(block);
+    if (span) {
+      setBlockSpan(block, span, zone);
+      logger.info(`  ✓ ${block.title}: ${formatSpan(span, zone)}`);
+    } else {
+      block.action = 'skip';
+      block.conflict = `No free ${block.template.flexible!.duration} minutes between ${formatSpan(window, zone)}`;
+      logger.warn(`  ⚠ ${block.title}: ${block.conflict}; skipped`);
+    }
+  }
+}
+
+/**
+ * Get the span of a planned block that is about to be written, with the zone its times are in
+ * Blocks being skipped, invalid blocks and all-day blocks have no span
+ */
+function getBlockSpan(block: PlannedBlock, config: Config): { span: TimeSpan; zone: string } | null {
+  const date = block.dateProperty ? block.properties?.[block.dateProperty]?.date : null;
+  if (block.action === 'skip' || block.errors.length > 0 || !(date?.start?.length > 10) || !date.end) {
+    return null;
+  }
+
+  const zone = date.time_zone || config.timeZone;
+  return {
+    span: { start: toInstant(date.start, zone).getTime(), end: toInstant(date.end, zone).getTime() },
+    zone,
+  };
+}
+
+/**
+ * Move a planned block to a new span, in its payload and in the plan
+ */
+function setBlockSpan(block: PlannedBlock, span: TimeSpan, zone: string): void {
+  const date = block.properties![block.dateProperty!].date;
+  const toDateTime = (time: number) => formatWallClock(instantToWallClock(new Date(time), zone));
+  date.start = block.start = toDateTime(span.start);
+  date.end = block.end = toDateTime(span.end);
+}
+
+/**
+ * Get the instant of a number of minutes after midnight of a wall clock day
+ */
+function wallClockAt(day: WallClockTime, minutes: number, timeZone: string): number {
+  const time = new Date(Date.UTC(day.year, day.month - 1, day.day) + minutes * 60 * 1000);
+  return wallClockToInstant(
+    {
+      year: time.getUTCFullYear(),
+      month: time.getUTCMonth() + 1,
+      day: time.getUTCDate(),
+      hour: time.getUTCHours(),
+      minute: time.getUTCMinutes(),
+      second: 0,
+      millisecond: 0,
+    },
+    timeZone
+  ).getTime();
+}
+
+/**
+ * Write the planned time blocks for a single target date
+ */
+async function applyPlannedBlocks(
+  run: ScheduledRun,
+  config: Config,
+  blocks: PlannedBlock[],
+  targetDate: Date,
+  failFast: boolean
+): Promise<DaySummary> {
+  const { client, runId } = run;
   // Create entries in the time blocks database for each template (serially)
-  console.log('\nCreating time blocks in time blocks database (in order)...');
-  let created = 0;
+  logger.info('\nCreating time blocks in time blocks database (in order)...');
+  const summary: DaySummary = {
+    date: targetDate,
+    total: blocks.length,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    items: [],
+    parentPages: [],
+  };
 
-  for (const template of sortedTemplates) {
+  for (const block of blocks) {
     try {
+      if (block.action === 'skip') {
+        logger.info(`\n  Skipping: ${block.title} (${block.conflict ? 'conflict' : 'already exists'})`, {
+          event: 'block.skipped',
+          title: block.title,
+          date: block.date,
+          pageId: block.pageId,
+          conflict: block.conflict,
+        });
+        summary.skipped++;
+        summary.items.push(toReportItem(block, 'skipped'));
+        continue;
+      }
+
       // Log what we're about to create
-      console.log(`\n  Creating: ${template.title}`);
+      logger.info(`\n  ${block.action === 'update' ? 'Updating' : 'Creating'}: ${block.title}`);
 
-      const updatedProperties = updatePropertiesForDate(
-        template.properties,
-        targetDate,
-        referenceDate
-      );
+      if (block.errors.length > 0 || !block.properties) {
+        throw new Error(block.errors.join('; '));
+      }
+
+      // Link the block to the day's (and week's) page, creating it for the day's first block
+      for (const link of run.parentLinks) {
+        const { pageId, created } = await findOrCreateParentPage(
+          client,
+          link,
+          targetDate,
+          config.templateVars,
+          false
+        );
+        if (created) {
+          summary.parentPages.push(created);
+        }
+        block.properties[link.relationProperty] = { relation: [{ id: pageId! }] };
+      }
 
       // Log date range for debugging
-      logDateRange(template.properties, updatedProperties);
+      logDateRange(block.template.properties, block.properties, config.timeZone);
+
+      if (block.action === 'update') {
+        await client.updatePage(block.pageId!, block.properties);
+        summary.updated++;
+        summary.items.push(toReportItem(block, 'updated'));
+        logger.info(`  ✓ Successfully updated`, {
+          event: 'block.updated',
+          title: block.title,
+          date: block.date,
+          pageId: block.pageId,
+        });
+      } else {
+        if (block.action === 'recreate') {
+          // Archive the old block before creating its replacement
+          await client.deletePage(block.pageId!);
+          logger.info(`  ✓ Archived existing block`, {
+            event: 'block.archived',
+            title: block.title,
+            date: block.date,
+            pageId: block.pageId,
+          });
+        }
 
-      await client.createPage(config.timeBlocksDatabase, updatedProperties);
-      created++;
-      console.log(`  ✓ Successfully created`);
+        // With both tracking properties, a create that timed out can be looked up before sending it again
+        const tracked = block.properties[config.templateKeyProperty] && block.properties[config.runIdProperty];
+        const page = await client.createPage(
+          config.timeBlocksDatabase,
+          block.properties,
+          tracked ? () => findCreatedBlock(client, config, getTemplateKey(block.template), runId) : undefined
+        );
+        summary.created++;
+        summary.items.push({
+          ...toReportItem({ ...block, pageId: page.id }, 'created'),
+          ...(block.action === 'recreate' ? { replacedPageId: block.pageId } : {}),
+        });
+        logger.info(`  ✓ Successfully created`, {
+          event: 'block.created',
+          title: block.title,
+          date: block.date,
+          pageId: page.id,
+        });
 
-      // Small delay to respect rate limits (always delay between requests)
-      await delay(350);
+        if (block.content) {
+          // The block exists at this point, so a content failure doesn't count as a failed block
+          try {
+            await appendPageContent(client, page.id, block.content);
+            logger.info(`  ✓ Copied page content`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn(`  ⚠ Warning: Page content was not fully copied: ${message}`, {
+              event: 'block.content_failed',
+              title: block.title,
+              pageId: page.id,
+              error: message,
+            });
+          }
+        }
+      }
     } catch (error) {
-      console.error(`  ✗ Failed to create ${template.title}:`);
-      if (error instanceof Error) {
-        console.error(`     Error: ${error.message}`);
-      } else {
-        console.error(`     Error:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      summary.failed++;
+      summary.items.push({ ...toReportItem(block, 'failed'), error: message });
+      logger.error(`  ✗ Failed to create ${block.title}:`);
+      logger.error(`     Error: ${message}`, {
+        event: 'block.failed',
+        title: block.title,
+        date: block.date,
+        pageId: block.pageId,
+        error: message,
+      });
+
+      if (failFast) {
+        logger.warn('\n  ⚠ Stopping at the first failure (--fail-fast)');
+        break;
+      }
+    }
+  }
+
+  logger.info(
+    `\n✓ ${formatDate(targetDate)}: Created ${summary.created}, updated ${summary.updated}, ` +
+      `skipped ${summary.skipped} of ${summary.total} time blocks`
+  );
+
+  return summary;
+}
+
+/**
+ * Describe a planned block for the run report
+ */
+function toReportItem(block: PlannedBlock, outcome: RunOutcome): RunReportItem {
+  return {
+    title: block.title,
+    template: getTemplateKey(block.template),
+    ...(block.date ? { date: block.date } : {}),
+    action: block.action,
+    outcome,
+    ...(block.pageId ? { pageId: block.pageId } : {}),
+    ...(block.errors.length > 0 ? { error: block.errors.join('; ') } : {}),
+    ...(block.conflict ? { conflict: block.conflict } : {}),
+  };
+}
+
+/**
+ * Undo the blocks a failed run wrote: archive the blocks it created, and un-archive
+ * the blocks it archived to recreate them. Updated blocks keep their new values.
+ * Day and week pages the run created are archived too.
+ * Returns whether everything was rolled back
+ */
+async function rollBackRun(config: Config, report: RunReport): Promise<boolean> {
+  logger.info('\nRolling back the time blocks created by this run...');
+  const client = new NotionClientWrapper(config);
+  let complete = true;
+
+  for (const item of report.items) {
+    // A failed recreate may have archived the old block before failing
+    const restore =
+      item.outcome === 'created' ? item.replacedPageId : item.action === 'recreate' ? item.pageId : undefined;
+    if (item.outcome !== 'created' && !restore) {
+      continue;
+    }
+
+    try {
+      if (item.outcome === 'created') {
+        await client.deletePage(item.pageId!);
+        item.rolledBack = true;
+      }
+      if (restore) {
+        await client.restorePage(restore);
       }
+      logger.info(`  ✓ Rolled back: ${item.title}`, {
+        event: 'block.rolled_back',
+        title: item.title,
+        pageId: item.pageId,
+      });
+    } catch (error) {
+      complete = false;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`  ✗ Failed to roll back ${item.title} (${item.pageId}): ${message}`, {
+        event: 'block.rollback_failed',
+        title: item.title,
+        pageId: item.pageId,
+        error: message,
+      });
     }
   }
 
-  console.log(`\n✓ Created ${created} of ${sortedTemplates.length} time blocks`);
+  for (const parent of report.parentPages ?? []) {
+    try {
+      await client.deletePage(parent.pageId);
+      parent.rolledBack = true;
+      logger.info(`  ✓ Rolled back ${parent.kind} page: ${parent.title}`, {
+        event: 'parent.rolled_back',
+        kind: parent.kind,
+        pageId: parent.pageId,
+      });
+    } catch (error) {
+      complete = false;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`  ✗ Failed to roll back ${parent.kind} page ${parent.title} (${parent.pageId}): ${message}`, {
+        event: 'parent.rollback_failed',
+        kind: parent.kind,
+        pageId: parent.pageId,
+        error: message,
+      });
+    }
+  }
+
+  return complete;
+}
+
+/**
+ * Log per-day results and totals for a multi-day run
+ */
+function logOverallSummary(summaries: DaySummary[]): void {
+  logger.info('\nSummary:');
+  for (const summary of summaries) {
+    logger.info(
+      `  ${formatDate(summary.date)}  created ${summary.created}, updated ${summary.updated}, ` +
+        `skipped ${summary.skipped}, failed ${summary.failed}`
+    );
+  }
+
+  const sum = (field: 'created' | 'updated' | 'skipped' | 'failed') =>
+    summaries.reduce((total, summary) => total + summary[field], 0);
+
+  logger.info(
+    `\n✓ ${summaries.length} days: Created ${sum('created')}, updated ${sum('updated')}, ` +
+      `skipped ${sum('skipped')}, failed ${sum('failed')}`
+  );
+}
+
+/**
+ * Format a target date for display, marking today
+ */
+function formatDateDisplay(date: Date, timeZone: string): string {
+  const isToday = formatDate(date) === formatDate(todayInTimeZone(timeZone));
+  return isToday ? `${formatDate(date)} (today)` : formatDate(date);
 }
 
 /**
  * Update properties to use the new target date
- * Focuses on updating date/datetime properties
+ * Focuses on updating date/datetime properties, and expands placeholders
+ * like {{date}} in title and rich text properties. With an offset span,
+ * the first date property is set from it instead of the template's own times.
+ * Properties that only describe the template, like its recurrence rule, are left out
  *
  * Note: When creating pages, we must NOT include 'type' or 'id' fields.
  * Only send the value portion of each property.
@@ -87,13 +996,23 @@ export async function runScheduledMode(config: Config, targetDate: Date): Promis
 function updatePropertiesForDate(
   properties: Record<string, any>,
   targetDate: Date,
-  referenceDate: Date | null
+  referenceDate: Date | null,
+  timeZone: string,
+  placeholders: PlaceholderContext,
+  templateOnly: string[],
+  span?: OffsetSpan
 ): Record<string, any> {
   const updated: Record<string, any> = {};
+  const offsetProperty = span ? getDatePropertyName(properties) : null;
 
   for (const [key, value] of Object.entries(properties)) {
-    // Skip read-only metadata fields
-    if (!value || typeof value !== 'object') {
+    // Skip read-only metadata fields and properties the time blocks database doesn't need
+    if (!value || typeof value !== 'object' || templateOnly.includes(key)) {
+      continue;
+    }
+
+    if (span && key === offsetProperty) {
+      updated[key] = { date: placeOffsetSpan(span, targetDate, value.date?.time_zone || timeZone) };
       continue;
     }
 
@@ -102,25 +1021,27 @@ function updatePropertiesForDate(
       const start = value.date.start;
       const end = value.date.end;
 
-      const newStart = start
-        ? combineDateTimeWithReference(start, targetDate, referenceDate)
-        : null;
-      const newEnd = end
-        ? combineDateTimeWithReference(end, targetDate, referenceDate)
-        : null;
+      // A zone set on the template itself wins over the configured one
+      const zone = value.date.time_zone || timeZone;
 
-      // Validate that start is before end
+      // All-day dates and ranges stay date-only, without a time zone
+      const dateOnly = !!start && start.length === 10;
+
+      const newStart = start ? shiftTemplateDate(start, targetDate, referenceDate, zone) : null;
+      const newEnd = end ? shiftTemplateDate(end, targetDate, referenceDate, zone) : null;
+
+      // Validate that start is before end; an all-day range may start and end on the same day
       if (newStart && newEnd) {
-        const startTime = new Date(newStart).getTime();
-        const endTime = new Date(newEnd).getTime();
+        const startTime = toInstant(newStart, zone).getTime();
+        const endTime = toInstant(newEnd, zone).getTime();
 
-        if (startTime >= endTime) {
-          console.warn(
+        if (dateOnly ? startTime > endTime : startTime >= endTime) {
+          logger.warn(
             `    ⚠ Warning: Invalid date range detected for property "${key}"`
           );
-          console.warn(`       Start: ${formatDateTime(newStart)}`);
-          console.warn(`       End: ${formatDateTime(newEnd)}`);
-          console.warn(`       Skipping this property to avoid error`);
+          logger.warn(`       Start: ${formatDateTime(newStart, zone)}`);
+          logger.warn(`       End: ${formatDateTime(newEnd, zone)}`);
+          logger.warn(`       Skipping this property to avoid error`);
           continue; // Skip this property
         }
       }
@@ -129,80 +1050,89 @@ function updatePropertiesForDate(
         date: {
           start: newStart,
           end: newEnd,
-          time_zone: value.date.time_zone || null,
+          time_zone: dateOnly ? null : zone,
         },
       };
-    } else if (value.type === 'title') {
-      // Title property - only send the title array
-      updated[key] = {
-        title: value.title || [],
-      };
-    } else if (value.type === 'rich_text') {
-      // Rich text property
-      updated[key] = {
-        rich_text: value.rich_text || [],
-      };
-    } else if (value.type === 'number') {
-      // Number property
-      updated[key] = {
-        number: value.number,
-      };
-    } else if (value.type === 'select') {
-      // Select property
-      updated[key] = {
-        select: value.select,
-      };
-    } else if (value.type === 'multi_select') {
-      // Multi-select property
-      updated[key] = {
-        multi_select: value.multi_select || [],
-      };
-    } else if (value.type === 'checkbox') {
-      // Checkbox property
-      updated[key] = {
-        checkbox: value.checkbox || false,
-      };
-    } else if (value.type === 'url') {
-      // URL property
-      updated[key] = {
-        url: value.url,
-      };
-    } else if (value.type === 'email') {
-      // Email property
-      updated[key] = {
-        email: value.email,
-      };
-    } else if (value.type === 'phone_number') {
-      // Phone number property
-      updated[key] = {
-        phone_number: value.phone_number,
-      };
-    } else if (value.type === 'relation') {
-      // Relation property
-      updated[key] = {
-        relation: value.relation || [],
-      };
-    } else if (value.type === 'people') {
-      // People property
-      updated[key] = {
-        people: value.people || [],
-      };
-    } else if (value.type === 'files') {
-      // Files property
-      updated[key] = {
-        files: value.files || [],
-      };
-    } else if (value.type === 'status') {
-      // Status property
-      updated[key] = {
-        status: value.status,
-      };
+    } else {
+      const copied = copyPropertyValue(value);
+      if (copied) {
+        updated[key] = copied;
+      }
+    }
+  }
+
+  return expandPropertyPlaceholders(updated, placeholders);
+}
+
+/**
+ * Get the value of a template property to send to Notion, without its 'type' or 'id'
+ * Returns null for properties Notion computes (formula, rollup, created_time, ...),
+ * which can't be written
+ */
+function copyPropertyValue(value: any): Record<string, any> | null {
+  switch (value.type) {
+    case 'title':
+      return { title: value.title || [] };
+    case 'rich_text':
+      return { rich_text: value.rich_text || [] };
+    case 'number':
+      return { number: value.number };
+    case 'select':
+      return { select: value.select };
+    case 'multi_select':
+      return { multi_select: value.multi_select || [] };
+    case 'checkbox':
+      return { checkbox: value.checkbox || false };
+    case 'url':
+      return { url: value.url };
+    case 'email':
+      return { email: value.email };
+    case 'phone_number':
+      return { phone_number: value.phone_number };
+    case 'relation':
+      return { relation: value.relation || [] };
+    case 'people':
+      return { people: value.people || [] };
+    case 'files':
+      return { files: value.files || [] };
+    case 'status':
+      return { status: value.status };
+    case 'date':
+      // Shifted to the target date by updatePropertiesForDate; an empty date stays empty
+      return { date: value.date };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Warn about template properties that can't be copied to the generated blocks,
+ * such as formulas and rollups, unless a property rule sets them
+ */
+function warnDroppedProperties(templates: TemplateTimeBlock[], config: Config, ruleProperties: string[]): void {
+  const dropped = new Map<string, { type: string; templates: number }>();
+
+  for (const template of templates) {
+    for (const [name, value] of Object.entries(template.properties)) {
+      const type = (value as any)?.type;
+      if (!type || copyPropertyValue(value) || ruleProperties.includes(config.propertyMap[name] || name)) {
+        continue;
+      }
+      const entry = dropped.get(name) ?? { type, templates: 0 };
+      entry.templates++;
+      dropped.set(name, entry);
     }
-    // Note: We skip formula, rollup, created_time, created_by, last_edited_time, last_edited_by
-    // as these are read-only/computed properties
   }
 
-  return updated;
+  if (dropped.size === 0) {
+    return;
+  }
+
+  logger.warn(`⚠ Warning: ${dropped.size} template properties can't be carried over to the time blocks:`);
+  for (const [name, { type, templates: count }] of dropped) {
+    logger.warn(`   ${name} (${type}, in ${count} templates)`);
+  }
+  logger.warn('   Set them with property rules (NOTION_RULES_FILE) if the time blocks need a value');
 }
 
 /**
@@ -210,7 +1140,8 @@ function updatePropertiesForDate(
  */
 function logDateRange(
   originalProperties: Record<string, any>,
-  updatedProperties: Record<string, any>
+  updatedProperties: Record<string, any>,
+  timeZone: string
 ): void {
   // Find date properties and log them
   for (const [key, value] of Object.entries(originalProperties)) {
@@ -222,15 +1153,16 @@ function logDateRange(
       if (updated?.date) {
         const newStart = updated.date.start;
         const newEnd = updated.date.end;
+        const zone = updated.date.time_zone || timeZone;
 
-        console.log(`     Property: ${key}`);
+        logger.debug(`     Property: ${key}`);
         if (originalStart && newStart) {
-          console.log(`       Template start: ${formatDateTime(originalStart)}`);
-          console.log(`       New start:      ${formatDateTime(newStart)}`);
+          logger.debug(`       Template start: ${formatDateTime(originalStart, zone)}`);
+          logger.debug(`       New start:      ${formatDateTime(newStart, zone)}`);
         }
         if (originalEnd && newEnd) {
-          console.log(`       Template end:   ${formatDateTime(originalEnd)}`);
-          console.log(`       New end:        ${formatDateTime(newEnd)}`);
+          logger.debug(`       Template end:   ${formatDateTime(originalEnd, zone)}`);
+          logger.debug(`       New end:        ${formatDateTime(newEnd, zone)}`);
         }
       }
     }
@@ -238,42 +1170,149 @@ function logDateRange(
 }
 
 /**
- * Find the reference date (earliest date) across all templates
- * This is used as the base to calculate day offsets
+ * Parse the recurrence rule of every template
  */
-function findReferenceDate(templates: any[]): Date | null {
-  let earliest: Date | null = null;
+function parseRecurrenceRules(
+  templates: TemplateTimeBlock[]
+): Map<TemplateTimeBlock, RecurrenceRule | null> {
+  const rules = new Map<TemplateTimeBlock, RecurrenceRule | null>();
 
   for (const template of templates) {
-    for (const [, value] of Object.entries(template.properties)) {
-      const prop = value as any;
-      if (prop && typeof prop === 'object' && prop.type === 'date' && prop.date) {
-        if (prop.date.start) {
-          const startDate = new Date(prop.date.start);
-          if (!earliest || startDate < earliest) {
-            earliest = startDate;
-          }
-        }
-        if (prop.date.end) {
-          const endDate = new Date(prop.date.end);
-          if (!earliest || endDate < earliest) {
-            earliest = endDate;
-          }
-        }
-      }
+    try {
+      rules.set(template, parseRecurrence(template.recurrence));
+    } catch (error) {
+      throw new ValidationError(`Template "${template.title}": ${(error as Error).message}`);
+    }
+  }
+
+  const recurring = [...rules.values()].filter(Boolean).length;
+  if (recurring > 0) {
+    logger.info(`${recurring} templates have a recurrence rule`);
+  }
+
+  return rules;
+}
+
+/**
+ * Check every placeholder in the templates refers to a known variable
+ */
+function checkPlaceholders(templates: TemplateTimeBlock[], variables: Record<string, string>): void {
+  for (const template of templates) {
+    const unknown = findUnknownPlaceholders(template.properties, variables);
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Template "${template.title}": Unknown placeholder ${unknown.join(', ')}. ` +
+          'Define custom variables with --var name=value or NOTION_TEMPLATE_VARS'
+      );
     }
   }
+}
 
-  return earliest;
+/**
+ * Check the day types of every template, which may have been edited by hand in the templates file
+ */
+function checkDayTypes(templates: TemplateTimeBlock[]): void {
+  for (const template of templates) {
+    try {
+      parseDayTypes(template.dayTypes);
+    } catch (error) {
+      throw new ValidationError(`Template "${template.title}": ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Check no two templates share a key, which would make one find the other's block as its own
+ * Only templates without an ID can clash, as their key is the title
+ */
+function checkTemplateKeys(templates: TemplateTimeBlock[]): void {
+  const seen = new Set<string>();
+  for (const template of templates) {
+    const key = getTemplateKey(template);
+    if (seen.has(key)) {
+      throw new ValidationError(
+        `Several templates have the key "${key}". Give each an id to tell their time blocks apart`
+      );
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Get the days after the target date a template places its block on: those of its
+ * offset, or for templates without one, the days its date is after the reference date
+ */
+function getTemplateDayOffset(
+  template: TemplateTimeBlock,
+  span: OffsetSpan | undefined,
+  referenceDate: Date | null,
+  timeZone: string
+): number {
+  if (span) {
+    return Math.floor(span.start / (24 * 60));
+  }
+
+  const name = getDatePropertyName(template.properties);
+  const date = name ? template.properties[name].date : null;
+  if (!referenceDate || !date?.start) {
+    return 0;
+  }
+
+  const zone = date.time_zone || timeZone;
+  return calendarDaysBetween(instantToWallClock(referenceDate, zone), toWallClock(date.start, zone));
+}
+
+/**
+ * Get the calendar date a template was written for, used to align recurrence intervals
+ * Uses the date as written in Notion rather than its UTC instant
+ */
+function getTemplateAnchorDate(template: TemplateTimeBlock): Date | null {
+  for (const [, value] of Object.entries(template.properties)) {
+    const prop = value as any;
+    if (prop && typeof prop === 'object' && prop.type === 'date' && prop.date?.start) {
+      return new Date(prop.date.start.substring(0, 10));
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the templates saved by init mode, or the hand-written local templates file
+ */
+async function loadTemplates(config: Config): Promise<TemplateTimeBlock[]> {
+  if (config.localTemplatesFilePath) {
+    logger.info(`Templates file: ${config.localTemplatesFilePath}`);
+    const schema = await loadSavedSchema(config.schemaFilePath);
+    return loadLocalTemplates(config.localTemplatesFilePath, schema, config);
+  }
+
+  const templatesContent = await fs.readFile(config.templatesFilePath, 'utf-8');
+  const savedTemplates = yaml.load(templatesContent) as SavedTemplates;
+  return savedTemplates.templates || [];
 }
 
 /**
  * Sort templates by their start time (ascending order)
+ * Templates with an offset are placed on the reference date's day, like the others
  */
-function sortTemplatesByStartTime(templates: any[]): any[] {
+function sortTemplatesByStartTime(
+  templates: any[],
+  timeZone: string,
+  offsets: Map<TemplateTimeBlock, OffsetSpan>,
+  referenceDate: Date | null
+): any[] {
+  // Without templates relying on the reference date, any day will do
+  const day = referenceDate ? todayInTimeZone(timeZone, referenceDate) : new Date(0);
+  const getStart = (template: any) => {
+    const span = offsets.get(template);
+    return span
+      ? toInstant(formatOffsetTime(day, span.start, timeZone), timeZone)
+      : getTemplateStartTime(template, timeZone);
+  };
+
   return [...templates].sort((a, b) => {
-    const aStart = getTemplateStartTime(a);
-    const bStart = getTemplateStartTime(b);
+    const aStart = getStart(a);
+    const bStart = getStart(b);
 
     if (!aStart && !bStart) return 0;
     if (!aStart) return 1;
@@ -286,62 +1325,47 @@ function sortTemplatesByStartTime(templates: any[]): any[] {
 /**
  * Get the start time from a template (first date property with a start time)
  */
-function getTemplateStartTime(template: any): Date | null {
+function getTemplateStartTime(template: any, timeZone: string): Date | null {
   for (const [, value] of Object.entries(template.properties)) {
     const prop = value as any;
     if (prop && typeof prop === 'object' && prop.type === 'date' && prop.date?.start) {
-      return new Date(prop.date.start);
+      return toInstant(prop.date.start, prop.date.time_zone || timeZone);
     }
   }
   return null;
 }
 
+/**
+ * Move a template date or datetime to the target date; date-only values stay date-only
+ */
+function shiftTemplateDate(
+  value: string,
+  targetDate: Date,
+  referenceDate: Date | null,
+  timeZone: string
+): string {
+  const shifted = combineDateTimeWithReference(value, targetDate, referenceDate, timeZone);
+  return value.length === 10 ? shifted.substring(0, 10) : shifted;
+}
+
 /**
  * Combine a template datetime with a target date, using reference date to calculate day offset
+ * Both the template time and the reference date are read as wall clock times in the time zone
  */
 function combineDateTimeWithReference(
   templateDateTime: string,
   targetDate: Date,
-  referenceDate: Date | null
+  referenceDate: Date | null,
+  timeZone: string
 ): string {
-  const templateDate = new Date(templateDateTime);
+  // Calculate how many days after the reference date this template datetime is
+  const dayOffset = referenceDate
+    ? calendarDaysBetween(
+        instantToWallClock(referenceDate, timeZone),
+        toWallClock(templateDateTime, timeZone)
+      )
+    : 0;
 
-  // Calculate day offset from reference date
-  let dayOffset = 0;
-  if (referenceDate) {
-    // Strip time components to get just the date
-    const refDay = new Date(
-      referenceDate.getFullYear(),
-      referenceDate.getMonth(),
-      referenceDate.getDate()
-    );
-    const templateDay = new Date(
-      templateDate.getFullYear(),
-      templateDate.getMonth(),
-      templateDate.getDate()
-    );
-
-    // Calculate how many days after the reference date this template datetime is
-    dayOffset = Math.round((templateDay.getTime() - refDay.getTime()) / (1000 * 60 * 60 * 24));
-  }
-
-  // Create new date with target year/month/day (plus offset) but template time
-  const combined = new Date(
-    targetDate.getFullYear(),
-    targetDate.getMonth(),
-    targetDate.getDate() + dayOffset,
-    templateDate.getHours(),
-    templateDate.getMinutes(),
-    templateDate.getSeconds(),
-    templateDate.getMilliseconds()
-  );
-
-  return combined.toISOString();
+  return combineDateTime(templateDateTime, targetDate, dayOffset, timeZone);
 }
 
-/**
- * Simple delay utility
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
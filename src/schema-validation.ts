@@ -0,0 +1,173 @@
+import { DatabaseObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { NotionClientWrapper } from './notion-client';
+import { Config, SavedSchema } from './types';
+import { loadSavedSchema } from './payload-validation';
+import { logger } from './logger';
+
+/**
+ * A difference between the saved templates schema and the time blocks database
+ * Errors make writes fail; warnings are differences Notion tolerates
+ */
+export interface SchemaIssue {
+  severity: 'error' | 'warning';
+  property: string;
+  message: string;
+}
+
+// Computed properties are never copied, so differences in them don't matter
+export const READ_ONLY_TYPES = [
+  'formula',
+  'rollup',
+  'created_time',
+  'created_by',
+  'last_edited_time',
+  'last_edited_by',
+  'unique_id',
+  'verification',
+  'button',
+];
+
+/**
+ * Fetch the time blocks database schema and compare it with the saved templates schema
+ */
+export async function checkTimeBlocksSchema(
+  client: NotionClientWrapper,
+  config: Config
+): Promise<{ saved: SavedSchema; target: DatabaseObjectResponse; issues: SchemaIssue[] }> {
+  const saved = await loadSavedSchema(config.schemaFilePath);
+  const target = await client.getDatabaseSchema(config.timeBlocksDatabase);
+
+  // Recurrence rules and day types only matter to the templates, so they aren't copied
+  const templateOnly = [config.recurrenceProperty, config.dayTypeProperty];
+
+  return { saved, target, issues: compareSchemas(saved, target, config.propertyMap, templateOnly) };
+}
+
+/**
+ * Count the issues that would make writes fail
+ */
+export function countSchemaErrors(issues: SchemaIssue[]): number {
+  return issues.filter((issue) => issue.severity === 'error').length;
+}
+
+/**
+ * Compare the saved templates schema with the time blocks database schema
+ * Template property names are translated through the property map first.
+ * Ignored template properties aren't copied to the time blocks, so they're skipped
+ */
+export function compareSchemas(
+  saved: SavedSchema,
+  target: DatabaseObjectResponse,
+  propertyMap: Record<string, string>,
+  ignored: string[] = []
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const savedProperties = saved.database.properties as Record<string, any>;
+  const targetProperties = target.properties as Record<string, any>;
+
+  for (const name of Object.keys(propertyMap)) {
+    if (!savedProperties[name]) {
+      issues.push({
+        severity: 'error',
+        property: name,
+        message: 'Property map refers to a property that is not in the templates schema',
+      });
+    }
+  }
+
+  for (const [name, savedProp] of Object.entries(savedProperties)) {
+    if (READ_ONLY_TYPES.includes(savedProp.type) || ignored.includes(name)) {
+      continue;
+    }
+
+    const targetName = propertyMap[name] || name;
+    const label = targetName === name ? name : `${name} → ${targetName}`;
+    const targetProp = targetProperties[targetName];
+
+    if (!targetProp) {
+      issues.push({
+        severity: 'error',
+        property: label,
+        message: 'Missing from the time blocks database',
+      });
+      continue;
+    }
+
+    if (targetProp.type !== savedProp.type) {
+      issues.push({
+        severity: 'error',
+        property: label,
+        message: `Type mismatch: ${savedProp.type} in templates, ${targetProp.type} in time blocks`,
+      });
+      continue;
+    }
+
+    if (['select', 'multi_select', 'status'].includes(savedProp.type)) {
+      const targetOptions = new Set<string>(
+        (targetProp[savedProp.type].options || []).map((option: any) => option.name)
+      );
+      const missing = (savedProp[savedProp.type].options || [])
+        .map((option: any) => option.name as string)
+        .filter((option: string) => !targetOptions.has(option));
+
+      if (missing.length > 0) {
+        // Notion adds unknown select options on write, but status options must exist
+        issues.push({
+          severity: savedProp.type === 'status' ? 'error' : 'warning',
+          property: label,
+          message: `Options not in the time blocks database: ${missing.join(', ')}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Print schema issues followed by a count of errors and warnings
+ */
+export function printSchemaIssues(issues: SchemaIssue[]): void {
+  if (issues.length === 0) {
+    logger.info('✓ Time blocks database matches the templates schema');
+    return;
+  }
+
+  for (const issue of issues) {
+    const marker = issue.severity === 'error' ? '✗' : '⚠';
+    logger.info(`  ${marker} ${issue.property}: ${issue.message}`);
+  }
+
+  const errors = countSchemaErrors(issues);
+  const warnings = issues.length - errors;
+  logger.info(`\n${errors} errors, ${warnings} warnings`);
+}
+
+/**
+ * Rename template properties to their time blocks database names
+ */
+export function mapPropertyNames(
+  properties: Record<string, any>,
+  propertyMap: Record<string, string>
+): Record<string, any> {
+  const mapped: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(properties)) {
+    mapped[propertyMap[name] || name] = value;
+  }
+
+  return mapped;
+}
+
+/**
+ * Rename the properties of a saved schema to their time blocks database names
+ */
+export function mapSchema(schema: SavedSchema, propertyMap: Record<string, string>): SavedSchema {
+  return {
+    ...schema,
+    database: {
+      ...schema.database,
+      properties: mapPropertyNames(schema.database.properties, propertyMap),
+    } as DatabaseObjectResponse,
+  };
+}
@@ -1,11 +1,42 @@
 import { DatabaseObjectResponse, PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
 
 export interface Config {
+  profile?: string;  // Name of the profile in the config file, if any
   notionApiKey: string;
-  templatesDatabase: string;  // Database to read templates from
+  templatesDatabase?: string;  // Database to read templates from; not needed with local templates
   timeBlocksDatabase: string;  // Database to write time blocks to
   schemaFilePath: string;
   templatesFilePath: string;
+  localTemplatesFilePath?: string;  // Hand-written templates file used instead of the templates database
+  templateKeyProperty: string;  // Text property that records which template created a block
+  runIdProperty: string;  // Text property that records which scheduled run created a block
+  datePropertyName?: string;  // Date property purge filters use when the database has several
+  lastPurgeFilePath: string;  // Record of the pages archived by the last purge, for --restore
+  reportFilePath?: string;  // JSON report written at the end of scheduled and purge runs
+  doneProperty: string;  // Checkbox, status or select property marking a time block as done
+  doneValues: string[];  // Status/select options that count as done
+  categoryProperty: string;  // Property time blocks are grouped by in the reconcile report
+  daemonTime: number;  // Minutes after midnight (in timeZone) the daemon creates time blocks at
+  daemonDates: string;  // Date expression for the days the daemon creates, relative to the day it runs
+  daemonCatchUpDays: number;  // Most missed days the daemon catches up on after downtime
+  daemonPort: number;  // Port of the daemon's health endpoint on localhost; 0 turns it off
+  daemonStateFilePath: string;  // Last run of the daemon, so missed days can be caught up
+  recurrenceProperty: string;  // Select/text property of templates holding their recurrence rule
+  dayTypeProperty: string;  // Select/multi-select property of templates holding their day types
+  holidayCalendars: string[];  // ICS/YAML files or country presets (e.g. "US")
+  timeZone: string;  // IANA time zone template times are read and written in
+  requestsPerSecond: number;  // Average Notion API request rate (Notion allows ~3)
+  maxRetries: number;  // Retries of a request failing with 429, 5xx or a timeout
+  concurrency: number;  // Requests in flight at once for order-independent work
+  propertyMap: Record<string, string>;  // Template property name -> time blocks property name
+  rulesFilePath?: string;  // Property rules applied to every generated block
+  dayPagesDatabase?: string;  // Database of day pages the time blocks are linked to
+  dayRelationProperty: string;  // Relation property of the time blocks pointing to their day page
+  dayPageTitle: string;  // Title of new day pages, with {{placeholders}}
+  weekPagesDatabase?: string;  // Database of week pages the time blocks are linked to
+  weekRelationProperty: string;  // Relation property of the time blocks pointing to their week page
+  weekPageTitle: string;  // Title of new week pages, with placeholders filled in for the Monday
+  templateVars: Record<string, string>;  // Custom {{placeholder}} values
 }
 
 export interface TimeBlock {
@@ -14,8 +45,115 @@ export interface TimeBlock {
 }
 
 export interface TemplateTimeBlock {
+  id?: string;  // Page ID in the templates database, used as the stable template key
   title: string;
+  recurrence?: string;  // Recurrence rule (see recurrence.ts); empty means every date
+  dayTypes?: DayType[];  // Kinds of day the template applies on; empty means workdays and weekends
   properties: Record<string, any>;
+  content?: TemplateBlock[];  // Page body, recreated in each generated page
+  flexible?: FlexibleSpec;  // Placed in free time instead of at the template's own times
+  offset?: TemplateOffset;  // Where the block goes; without one, days count from the reference date
+}
+
+/**
+ * Where a template's block goes relative to the target date; times are minutes
+ * Either a day and a start time, a gap after another template's block, or
+ * just a day for an all-day block
+ */
+export interface TemplateOffset {
+  day?: number;  // Days after the target date (default 0); all a flexible template's offset has
+  start?: number;  // Minutes after midnight; without start or after, the block is all-day
+  after?: string;  // Key or title of the template whose block this one follows
+  gap?: number;  // Minutes between the end of that block and the start of this one (default 0)
+  duration?: number;  // Required unless the block is all-day
+  days?: number;  // Length of an all-day block (default 1)
+}
+
+/**
+ * Where a flexible template may be placed; times are minutes after midnight
+ */
+export interface FlexibleSpec {
+  duration: number;  // Minutes
+  window: { start: number; end: number };  // An end past 1440 is on the next day
+  priority?: number;  // Lower numbers are placed first
+}
+
+/**
+ * Kind of calendar day; holidays come from the configured holiday calendars
+ */
+export type DayType = 'workday' | 'weekend' | 'holiday';
+
+/**
+ * A block of template page content, in the shape accepted when appending blocks
+ * e.g. { type: 'to_do', to_do: { rich_text: [...], checked: false }, children: [...] }
+ */
+export interface TemplateBlock {
+  type: string;
+  children?: TemplateBlock[];
+  [data: string]: any;
+}
+
+/**
+ * A hand-written template in a local templates file (see templates.schema.json)
+ * Times are wall clock times like "09:00"; property values are plain values or option names
+ */
+export interface LocalTemplate {
+  id?: string;  // Stable template key; defaults to the title
+  title: string;
+  start?: string;  // Required unless the template is flexible (has a window)
+  end?: string;  // Earlier than start means the next day
+  duration?: string | number;  // e.g. "1h30m", "45m" or minutes; alternative to end
+  window?: { start: string; end: string };  // Makes the template flexible: placed in free time here
+  priority?: number;  // Order flexible templates are placed in; lower first
+  day?: number;  // Days after the anchor date, for templates spanning several days
+  anchor?: string;  // Date its recurrence intervals are counted from, instead of the file's anchor
+  after?: string;  // Title or id of a template this one follows, instead of start
+  gap?: string | number;  // Time between the end of that template and the start of this one
+  allDay?: boolean;  // A date without times, instead of start and end
+  days?: number;  // Length of an all-day template in days
+  recurrence?: string;
+  dayTypes?: string | string[];  // workday, weekend and/or holiday
+  properties?: Record<string, unknown>;
+}
+
+export interface LocalTemplatesFile {
+  timeZone?: string;  // Zone the times are in; defaults to the configured time zone
+  anchor?: string;  // Date recurrence intervals are counted from (YYYY-MM-DD)
+  templates: LocalTemplate[];
+}
+
+/**
+ * Config file with named profiles (notion-time-blocks.yaml)
+ * Each profile is a set of the same settings as .env, e.g. NOTION_TIME_ZONE
+ */
+export interface ConfigFile {
+  defaults?: Record<string, unknown>;  // Settings shared by all profiles
+  profiles: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Value a property rule computes when a block is generated
+ */
+export type ComputedValue = 'now' | 'today' | 'target-date';
+
+/**
+ * A rule changing a property of the generated blocks, from the property rules file
+ * Applies to one property of the time blocks database, or every property of a type,
+ * and takes exactly one of set, override, clear, compute or mapRelations
+ */
+export interface PropertyRule {
+  property?: string;  // Time blocks database property name
+  type?: string;  // Or every property of this type, e.g. checkbox
+  templates?: string | string[];  // Only the blocks of these templates (titles or keys)
+  set?: unknown;  // Value where the template leaves the property empty
+  override?: unknown;  // Value replacing the template's
+  clear?: boolean;  // Leave the property empty
+  compute?: ComputedValue;
+  mapRelations?: Record<string, string>;  // Template relation page ID -> page ID to link instead
+}
+
+export interface PropertyRulesFile {
+  rules: PropertyRule[];
 }
 
 export interface SavedSchema {
@@ -27,3 +165,159 @@ export interface SavedTemplates {
   templates: TemplateTimeBlock[];
   savedAt: string;
 }
+
+/**
+ * What to do when a block for the same template and date already exists
+ */
+export type ExistingBlockPolicy = 'skip' | 'update' | 'recreate';
+
+/**
+ * What to do with a block that overlaps a page already in the time blocks database,
+ * such as a meeting or a block added by hand
+ */
+export type ConflictPolicy = 'warn' | 'skip' | 'shift' | 'shrink';
+
+/**
+ * How a dry run prints its plan
+ */
+export type PlanFormat = 'table' | 'json';
+
+export interface ScheduledModeOptions {
+  onExisting: ExistingBlockPolicy;
+  onConflict: ConflictPolicy;
+  skipValidation: boolean;  // Run even if the time blocks schema has errors
+  dryRun: boolean;
+  format: PlanFormat;
+  failFast: boolean;  // Stop at the first time block that fails
+  rollback: boolean;  // Archive the blocks created by a run that fails
+}
+
+/**
+ * How the reconcile report is printed
+ */
+export type ReportFormat = 'table' | 'csv' | 'json';
+
+export interface ReconcileModeOptions {
+  format: ReportFormat;
+  skipValidation: boolean;  // Plan the blocks even if the time blocks schema has errors
+}
+
+/**
+ * Narrow a purge to part of the time blocks database; all fields are combined with AND
+ */
+export interface PurgeFilters {
+  dateRange?: { start: Date; end: Date };  // Calendar days, inclusive
+  template?: string;  // Template title or template key
+  runId?: string;
+}
+
+export interface PurgeModeOptions {
+  dryRun: boolean;
+  format: PlanFormat;
+  filters: PurgeFilters;
+  failFast: boolean;  // Stop deleting after the first failure
+}
+
+/**
+ * The last run of the daemon for a profile, saved so missed days can be caught up
+ */
+export interface DaemonState {
+  lastRunDay: string;  // Day (YYYY-MM-DD) of the last scheduled run, in the profile's time zone
+  lastRunAt: string;
+  lastStatus: 'success' | 'partial' | 'failed';
+  lastError?: string;
+  targetDates: string[];  // Days the last run created time blocks for
+  failedDays?: string[];  // Days whose run failed or partly failed, retried at every check
+}
+
+/**
+ * Pages archived by the last purge, saved so they can be restored
+ */
+export interface SavedPurge {
+  purgedAt: string;
+  filters: string;  // Human-readable description of the purge filters
+  pageIds: string[];
+}
+
+export interface PushModeOptions {
+  force: boolean;  // Push even if templates were edited in Notion since they were saved
+}
+
+/**
+ * Where exported calendar events come from: the time blocks database,
+ * or the blocks the templates would create
+ */
+export type IcsSource = 'database' | 'templates';
+
+export interface ExportIcsOptions {
+  file: string;
+  source: IcsSource;
+  onConflict: ConflictPolicy;  // Used with the templates source
+  skipValidation: boolean;
+}
+
+export type PlannedAction = 'create' | 'update' | 'recreate' | 'skip' | 'delete';
+
+/**
+ * A change a mode would make to the time blocks database
+ */
+export interface PlannedChange {
+  action: PlannedAction;
+  title: string;
+  templateKey?: string;  // Key of the template the change was planned from
+  date?: string;  // Target date (YYYY-MM-DD) the change was planned for
+  pageId?: string;  // Existing page that is updated, archived or skipped
+  start: string | null;
+  end: string | null;
+  properties?: Record<string, any>;  // Payload that would be sent to Notion
+  errors: string[];
+  conflict?: string;  // Overlap with an existing page, and how it was resolved
+}
+
+/**
+ * What happened to a time block in a run; dry runs only plan
+ */
+export type RunOutcome = 'planned' | 'created' | 'updated' | 'skipped' | 'deleted' | 'failed';
+
+/**
+ * One time block in a run report
+ */
+export interface RunReportItem {
+  title: string;
+  template?: string;  // Template key (page ID in the templates database, or title)
+  date?: string;  // Target date (YYYY-MM-DD)
+  action: PlannedAction;
+  outcome: RunOutcome;
+  pageId?: string;  // Page created, updated, skipped or deleted
+  replacedPageId?: string;  // Page archived to be recreated
+  error?: string;
+  conflict?: string;
+  rolledBack?: boolean;  // Archived again because the run failed
+}
+
+/**
+ * A day or week page a run created to link its time blocks to
+ */
+export interface CreatedParentPage {
+  kind: 'day' | 'week';
+  title: string;
+  pageId: string;
+  rolledBack?: boolean;  // Archived again because the run failed
+}
+
+/**
+ * Machine-readable record of a scheduled or purge run, written to the report file
+ */
+export interface RunReport {
+  mode: 'scheduled' | 'purge';
+  profile?: string;
+  runId?: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt?: string;
+  status: 'success' | 'partial' | 'failed';  // partial: some blocks were written, others failed
+  error?: string;  // Why the run stopped early
+  summary: Partial<Record<RunOutcome, number>>;
+  items: RunReportItem[];
+  parentPages?: CreatedParentPage[];  // Day and week pages created, if any
+}
@@ -0,0 +1,46 @@
+import { NotionClientWrapper } from './notion-client';
+import { Config } from './types';
+import { checkTimeBlocksSchema, countSchemaErrors, printSchemaIssues } from './schema-validation';
+import { loadLocalTemplates } from './local-templates';
+import { logger } from './logger';
+import { ValidationError } from './errors';
+
+/**
+ * Validate mode: Check the time blocks database against the saved templates schema
+ * Reports missing properties, type mismatches and missing select/status options.
+ * A local templates file is checked against the saved schema too
+ */
+export async function runValidateMode(config: Config): Promise<void> {
+  logger.info('Running validate mode...');
+  logger.info(`Schema file: ${config.schemaFilePath}`);
+  logger.info(`Time Blocks Database ID: ${config.timeBlocksDatabase}`);
+
+  const mappings = Object.entries(config.propertyMap);
+  if (mappings.length > 0) {
+    logger.info('Property map:');
+    for (const [from, to] of mappings) {
+      logger.info(`  ${from} → ${to}`);
+    }
+  }
+
+  const client = new NotionClientWrapper(config);
+
+  logger.info('\nComparing schemas...');
+  const { saved, issues } = await checkTimeBlocksSchema(client, config);
+  logger.info(`Templates schema saved at: ${saved.savedAt}\n`);
+
+  printSchemaIssues(issues);
+
+  const errors = countSchemaErrors(issues);
+  if (errors > 0) {
+    throw new ValidationError(`Time blocks database schema has ${errors} errors`);
+  }
+
+  if (config.localTemplatesFilePath) {
+    logger.info(`\nChecking templates file: ${config.localTemplatesFilePath}`);
+    const templates = await loadLocalTemplates(config.localTemplatesFilePath, saved, config);
+    logger.info(`✓ ${templates.length} templates are valid`);
+  }
+
+  logger.info('\n✓ Validate mode completed successfully!');
+}